@@ -0,0 +1,83 @@
+/**
+ * Biome Configuration
+ * Terrain is generated from three independent noise layers (elevation,
+ * moisture, temperature). The biome table maps their values to terrain types.
+ */
+
+import { TerrainType, TERRAIN_CONFIG } from './constants'
+
+export interface NoiseLayerConfig {
+  scale: number        // Smaller = larger features
+  octaves: number
+  persistence: number
+}
+
+/**
+ * One row of the biome table
+ * Each range is [min, max); omitted ranges match any value
+ */
+export interface BiomeRule {
+  terrain: TerrainType
+  elevation?: [number, number]
+  moisture?: [number, number]
+  temperature?: [number, number]
+}
+
+/**
+ * Patch of a secondary terrain inside a biome (e.g. clearings in forests)
+ * Driven by a high-frequency detail noise so patches have natural shapes
+ */
+export interface PatchRule {
+  terrain: TerrainType
+  on: TerrainType[]
+  threshold: number    // Detail noise above this = patch
+}
+
+/**
+ * Single-tile scatter (e.g. rocks), rolled per tile
+ */
+export interface ScatterRule {
+  terrain: TerrainType
+  on: TerrainType[]
+  chance: number
+}
+
+export const BIOME_LAYERS: Record<'elevation' | 'moisture' | 'temperature' | 'detail', NoiseLayerConfig> = {
+  elevation: { scale: 0.035, octaves: 5, persistence: 0.5 },
+  moisture: { scale: 0.05, octaves: 4, persistence: 0.5 },
+  temperature: { scale: 0.02, octaves: 3, persistence: 0.5 },
+  detail: { scale: 0.12, octaves: 2, persistence: 0.5 }
+}
+
+// How much colder it gets with elevation (temperature -= (elevation - 0.5) * lapseRate)
+export const TEMPERATURE_LAPSE_RATE = 0.5
+
+/**
+ * Biome table - evaluated top to bottom, first matching row wins
+ * Tuned for a Czech landscape: lakes ringed by beaches and wetlands,
+ * meadows in the lowlands, mixed and birch woods on the slopes,
+ * spruce on the cold uplands and bare hills on the tops
+ */
+export const BIOME_TABLE: BiomeRule[] = [
+  { terrain: TerrainType.WATER, elevation: [0, TERRAIN_CONFIG.waterThreshold] },
+  { terrain: TerrainType.SAND, elevation: [0, TERRAIN_CONFIG.waterThreshold + 0.025], moisture: [0, 0.6] },
+  { terrain: TerrainType.SWAMP, elevation: [0, 0.42], moisture: [0.6, 1] },
+  { terrain: TerrainType.HILLS, elevation: [0.68, 1] },
+  { terrain: TerrainType.SPRUCE_FOREST, elevation: [0.56, 1], moisture: [0.45, 1] },
+  { terrain: TerrainType.SPRUCE_FOREST, temperature: [0, 0.38], moisture: [0.5, 1] },
+  { terrain: TerrainType.FOREST, moisture: [0.55, 1] },
+  { terrain: TerrainType.BIRCH_FOREST, moisture: [0.47, 1], temperature: [0.5, 1] },
+  { terrain: TerrainType.MEADOW }
+]
+
+const FOREST_TYPES = [TerrainType.FOREST, TerrainType.BIRCH_FOREST, TerrainType.SPRUCE_FOREST]
+
+export const BIOME_PATCHES: PatchRule[] = [
+  { terrain: TerrainType.CLEARING, on: FOREST_TYPES, threshold: 0.68 }
+]
+
+export const BIOME_SCATTER: ScatterRule[] = [
+  { terrain: TerrainType.ROCKS, on: [TerrainType.MEADOW], chance: 0.01 },
+  { terrain: TerrainType.ROCKS, on: [TerrainType.HILLS], chance: 0.08 },
+  { terrain: TerrainType.ROCKS, on: [TerrainType.CLEARING], chance: 0.005 }
+]
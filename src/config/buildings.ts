@@ -0,0 +1,303 @@
+/**
+ * Building Registry
+ * Everything the game needs to know about a building type. Placement, the
+ * build menu, construction and housing all read from here, so a new
+ * building is one entry plus its name in BuildingType.
+ */
+
+import { ASSETS, ROAD_CONFIG, TerrainType } from './constants'
+import type { BuildingType, MenuItem, Profession, ResourceCost, ResourceType, ToolType } from '@/types/game'
+
+export interface LightAnchor {
+  x: number       // px from the sprite base
+  y: number
+  scale: number
+}
+
+export interface Recipe {
+  inputs: ResourceCost
+  outputs: ResourceCost
+  duration: number            // ms of work per batch
+}
+
+export interface ProductionDefinition {
+  recipe: Recipe
+  profession: Profession      // Taken up by the hired worker
+  inputBatches: number        // Batches of inputs kept on hand
+  outputBatches: number       // Batches of outputs held before work stops
+}
+
+export interface FieldsDefinition {
+  radius: number              // Meadow tiles this far around the footprint become fields
+  profession: Profession      // Taken up by the hired farmer
+}
+
+export interface ForestryDefinition {
+  radius: number              // Saplings are planted this far around the footprint
+  profession: Profession      // Taken up by the hired forester
+  maxGrowing: number          // Saplings and young trees tended at once
+}
+
+export interface HuntingDefinition {
+  radius: number              // Animals this far from the lodge are hunted
+  profession: Profession      // Taken up by the hired hunter
+}
+
+export interface UpgradeDefinition {
+  to: BuildingType            // Next tier, built in place (a larger footprint grows from the same corner)
+  cost: ResourceCost
+}
+
+export interface BuildingDefinition {
+  label: string               // Czech name shown in the UI
+  texture: string             // Sprite, also used as the menu icon
+  size: number                // Square footprint, tiles per side
+  width: number               // Sprite width in tiles
+  lights: LightAnchor[]       // Glows shown at night while someone is inside
+  indicatorOffset: number     // Empty-building marker height above the sprite base (tiles)
+  capacity: number            // Residents (0 = nobody lives here)
+  terrain?: TerrainType[]     // Ground it may stand on, on top of the buildable rule (default: any)
+  cost: ResourceCost
+  buildTime: number           // ms of construction work once materials are on site
+  profession?: Profession     // Work residents take up
+  storage?: ResourceCost      // Capacity per resource when used as storage
+  production?: ProductionDefinition
+  fields?: FieldsDefinition
+  forestry?: ForestryDefinition
+  hunting?: HuntingDefinition
+  upgrade?: UpgradeDefinition // Offered when the building is clicked while lived in
+  deterRadius?: number        // Wolves keep out of this many tiles around a finished building
+}
+
+export const BUILDING_DEFINITIONS: Record<BuildingType, BuildingDefinition> = {
+  house: {
+    label: 'Dům',
+    texture: ASSETS.BUILDINGS.HOUSE,
+    size: 2,
+    width: 3,
+    lights: [
+      { x: -15, y: -25, scale: 0.8 },  // Two windows
+      { x: 15, y: -15, scale: 0.8 }
+    ],
+    indicatorOffset: 1.5,
+    capacity: 3,
+    cost: { wood: 15 },
+    buildTime: 9000,
+    profession: 'woodcutter'
+  },
+  teepee: {
+    label: 'Týpí',
+    texture: ASSETS.BUILDINGS.TEEPEE,
+    size: 1,
+    width: 0.8,
+    lights: [
+      { x: 0, y: -5, scale: 1.0 }      // Fire glow
+    ],
+    indicatorOffset: 1.0,
+    capacity: 1,
+    cost: { wood: 5 },
+    buildTime: 3000,
+    profession: 'gatherer',
+    upgrade: { to: 'hut', cost: { wood: 8 } }
+  },
+  hut: {
+    label: 'Chatrč',
+    texture: ASSETS.BUILDINGS.HUT,
+    size: 1,
+    width: 1.0,
+    lights: [
+      { x: 0, y: -18, scale: 0.8 }     // Doorway
+    ],
+    indicatorOffset: 1.2,
+    capacity: 2,
+    cost: { wood: 12 },
+    buildTime: 5000,
+    profession: 'quarrier',
+    upgrade: { to: 'house', cost: { wood: 10, stone: 5 } }
+  },
+  quarry: {
+    label: 'Lom',
+    texture: ASSETS.BUILDINGS.QUARRY,
+    size: 1,
+    width: 1.1,
+    lights: [
+      { x: -8, y: -20, scale: 0.8 }    // Window
+    ],
+    indicatorOffset: 1.2,
+    capacity: 1,
+    cost: { wood: 10 },
+    buildTime: 4000,
+    profession: 'quarrier'
+  },
+  stockpile: {
+    label: 'Hromada',
+    texture: ASSETS.BUILDINGS.STOCKPILE,
+    size: 1,
+    width: 0.9,
+    lights: [],
+    indicatorOffset: 1.0,
+    capacity: 0,
+    cost: { wood: 5 },
+    buildTime: 1500,
+    storage: { wood: 40, stone: 40, planks: 20, food: 20, berries: 20, blocks: 20, meat: 20, hides: 20 }
+  },
+  storehouse: {
+    label: 'Sklad',
+    texture: ASSETS.BUILDINGS.STOREHOUSE,
+    size: 2,
+    width: 2.2,
+    lights: [],
+    indicatorOffset: 1.5,
+    capacity: 0,
+    cost: { wood: 25 },
+    buildTime: 9000,
+    storage: { wood: 150, stone: 150, planks: 100, food: 80, berries: 80, blocks: 100, meat: 80, hides: 80 }
+  },
+  sawmill: {
+    label: 'Pila',
+    texture: ASSETS.BUILDINGS.SAWMILL,
+    size: 2,
+    width: 2.2,
+    lights: [],
+    indicatorOffset: 1.5,
+    capacity: 0,
+    cost: { wood: 20 },
+    buildTime: 9000,
+    production: {
+      recipe: { inputs: { wood: 2 }, outputs: { planks: 3 }, duration: 4000 },
+      profession: 'sawyer',
+      inputBatches: 3,
+      outputBatches: 3
+    }
+  },
+  stonemason: {
+    label: 'Kamenická dílna',
+    texture: ASSETS.BUILDINGS.STONEMASON,
+    size: 1,
+    width: 1.1,
+    lights: [],
+    indicatorOffset: 1.2,
+    capacity: 0,
+    cost: { wood: 15 },
+    buildTime: 6000,
+    production: {
+      recipe: { inputs: { stone: 2 }, outputs: { blocks: 1 }, duration: 5000 },
+      profession: 'mason',
+      inputBatches: 3,
+      outputBatches: 4
+    }
+  },
+  farm: {
+    label: 'Statek',
+    texture: ASSETS.BUILDINGS.FARM,
+    size: 2,
+    width: 2.2,
+    lights: [],
+    indicatorOffset: 1.5,
+    capacity: 0,
+    terrain: [TerrainType.MEADOW],
+    cost: { wood: 20 },
+    buildTime: 6000,
+    fields: {
+      radius: 2,
+      profession: 'farmer'
+    }
+  },
+  forester: {
+    label: 'Hájovna',
+    texture: ASSETS.BUILDINGS.FORESTER,
+    size: 1,
+    width: 1.1,
+    lights: [],
+    indicatorOffset: 1.2,
+    capacity: 0,
+    cost: { wood: 10 },
+    buildTime: 4000,
+    forestry: {
+      radius: 5,
+      profession: 'forester',
+      maxGrowing: 8
+    }
+  },
+  watchtower: {
+    label: 'Strážní věž',
+    texture: ASSETS.BUILDINGS.WATCHTOWER,
+    size: 1,
+    width: 0.8,
+    lights: [],
+    indicatorOffset: 2.2,
+    capacity: 0,
+    cost: { wood: 15, stone: 5 },
+    buildTime: 6000,
+    deterRadius: 10
+  },
+  hunter: {
+    label: 'Lovecká chata',
+    texture: ASSETS.BUILDINGS.HUNTER,
+    size: 1,
+    width: 1.1,
+    lights: [],
+    indicatorOffset: 1.2,
+    capacity: 0,
+    cost: { wood: 12 },
+    buildTime: 4000,
+    hunting: {
+      radius: 14,
+      profession: 'hunter'
+    }
+  }
+}
+
+// The village starts around one of these holding the settlers' supplies
+export const STARTING_STORAGE: BuildingType = 'stockpile'
+
+export const BUILDING_TYPES = Object.keys(BUILDING_DEFINITIONS) as BuildingType[]
+
+export interface MenuEntry {
+  label: string
+  icon: string
+  cost: ResourceCost
+  size: number
+}
+
+// Settlers are placed from the same menu but are not buildings
+const VILLAGER_ENTRY: MenuEntry = {
+  label: 'Vesničan',
+  icon: ASSETS.UI.VILLAGER_ICON,
+  cost: {},
+  size: 1
+}
+
+// Tools pick a standing building (or paint roads) instead of placing one
+const TOOL_ENTRIES: Record<ToolType, MenuEntry> = {
+  demolish: { label: 'Zbourat', icon: ASSETS.UI.DEMOLISH_ICON, cost: {}, size: 1 },
+  move: { label: 'Přesunout', icon: ASSETS.UI.MOVE_ICON, cost: {}, size: 1 },
+  road: { label: 'Cesta', icon: ASSETS.UI.ROAD_ICON, cost: ROAD_CONFIG.cost, size: 1 } // Cost per tile
+}
+
+// Build menu, left to right
+export const BUILD_MENU: MenuItem[] = [...BUILDING_TYPES, 'villager', 'road', 'demolish', 'move']
+
+export function isTool(item: MenuItem): item is ToolType {
+  return item in TOOL_ENTRIES
+}
+
+export function getMenuEntry(type: MenuItem): MenuEntry {
+  if (type === 'villager') return VILLAGER_ENTRY
+  if (isTool(type)) return TOOL_ENTRIES[type]
+
+  const definition = BUILDING_DEFINITIONS[type]
+  return { label: definition.label, icon: definition.texture, cost: definition.cost, size: definition.size }
+}
+
+/**
+ * A share of a building's cost, rounded down per resource
+ */
+export function getCostShare(type: BuildingType, share: number): ResourceCost {
+  const cost: ResourceCost = {}
+  for (const [resource, amount] of Object.entries(BUILDING_DEFINITIONS[type].cost) as [ResourceType, number][]) {
+    const part = Math.floor(amount * share)
+    if (part > 0) cost[resource] = part
+  }
+  return cost
+}
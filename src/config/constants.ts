@@ -3,13 +3,21 @@
  * All game-wide constants and configuration values
  */
 
+import type { TerrainRule, TerrainObjectType, ResourceType, CarriedLoad, AnimalSpecies } from '@/types/game'
+
 // Isometric tile dimensions
 export const TILE_WIDTH = 64
 export const TILE_HEIGHT = 32
 
-// World settings
-export const WORLD_WIDTH = 100  // Number of tiles horizontally
-export const WORLD_HEIGHT = 100 // Number of tiles vertically
+// World settings (the world is unbounded and streamed in chunks)
+export const CHUNK_SIZE = 16                // Chunk edge length in tiles
+export const CHUNK_LOAD_MARGIN = 1          // Extra chunks loaded around the camera view
+export const CHUNK_UNLOAD_MARGIN = 3        // Chunks further than this from the view are unloaded
+export const CHUNK_LOADS_PER_FRAME = 2      // Limit chunk loads per frame to avoid hitches
+export const SPAWN_SEARCH_RADIUS = 64       // How far to look for a dry starting tile
+export const WORK_SEARCH_RADIUS = 48        // How far workers look for trees, rocks and berries
+export const SPATIAL_CELL_SIZE = 8          // Bucket size (tiles) of the spatial indexes
+export const WORLD_SEED_PARAM = 'seed' // URL query parameter holding the world seed
 
 // Camera settings
 export const CAMERA_SPEED = 8
@@ -20,27 +28,93 @@ export const ZOOM_SPEED = 0.1
 
 // Terrain types
 export enum TerrainType {
-  MEADOW = 'meadow',   // Louka (light green)
-  FOREST = 'forest',   // Les (dark green)
-  WATER = 'water',     // Voda (blue)
-  ROCKS = 'rocks'      // Skály (gray)
+  MEADOW = 'meadow',                // Louka (light green)
+  FOREST = 'forest',                // Smíšený les (dark green)
+  WATER = 'water',                  // Voda (blue)
+  ROCKS = 'rocks',                  // Skály (gray)
+  SAND = 'sand',                    // Písečná pláž
+  SWAMP = 'swamp',                  // Mokřad
+  HILLS = 'hills',                  // Pahorkatina
+  BIRCH_FOREST = 'birch_forest',    // Březový háj
+  SPRUCE_FOREST = 'spruce_forest',  // Smrčina
+  CLEARING = 'clearing',            // Paseka
+  RIVER = 'river',                  // Řeka
+  STREAM = 'stream',                // Potok (mělký, dá se přebrodit)
+  STUMP = 'stump',                  // Pařez po pokáceném stromu
+  FIELD = 'field',                  // Zoraná půda u statku
+  SAPLING = 'sapling',              // Sazenice, vyroste v mladý les
+  YOUNG_FOREST = 'young_forest',    // Mladý les, ještě se nedá kácet
+  ROCKS_WORN = 'rocks_worn',        // Skála po prvním lámání
+  ROCKS_RUBBLE = 'rocks_rubble',    // Zbytky skály, pak louka
+  PATH = 'path',                    // Vyšlapaná pěšina
+  ROAD = 'road'                     // Postavená cesta
 }
 
 // Terrain colors (hex values)
-export const TERRAIN_COLORS = {
-  [TerrainType.MEADOW]: 0x90EE90,  // Light green
-  [TerrainType.FOREST]: 0x228B22,  // Forest green
-  [TerrainType.WATER]: 0x4682B4,   // Steel blue
-  [TerrainType.ROCKS]: 0x808080    // Gray
+export const TERRAIN_COLORS: Record<TerrainType, number> = {
+  [TerrainType.MEADOW]: 0x90EE90,         // Light green
+  [TerrainType.FOREST]: 0x228B22,         // Forest green
+  [TerrainType.WATER]: 0x4682B4,          // Steel blue
+  [TerrainType.ROCKS]: 0x808080,          // Gray
+  [TerrainType.SAND]: 0xE8D8A0,           // Pale sand
+  [TerrainType.SWAMP]: 0x5E7D4E,          // Murky olive
+  [TerrainType.HILLS]: 0xA3B86C,          // Dry upland green
+  [TerrainType.BIRCH_FOREST]: 0x6DBE45,   // Bright leafy green
+  [TerrainType.SPRUCE_FOREST]: 0x1E5631,  // Deep conifer green
+  [TerrainType.CLEARING]: 0xB5E08C,       // Sunlit grass
+  [TerrainType.RIVER]: 0x3A78C2,          // Running water
+  [TerrainType.STREAM]: 0x6FA8DC,         // Shallow water
+  [TerrainType.STUMP]: 0x8DB86B,          // Trampled grass around a stump
+  [TerrainType.FIELD]: 0x8B6B3E,          // Tilled soil
+  [TerrainType.SAPLING]: 0x86D17A,        // Grass with seedlings
+  [TerrainType.YOUNG_FOREST]: 0x4FA84A,   // Thickening undergrowth
+  [TerrainType.ROCKS_WORN]: 0x939393,     // Broken stone
+  [TerrainType.ROCKS_RUBBLE]: 0xA9B59A,   // Gravel with grass coming through
+  [TerrainType.PATH]: 0x90EE90,           // Meadow under a trail
+  [TerrainType.ROAD]: 0x90EE90            // Meadow along the road
+}
+
+// Placement and walkability rules per terrain type
+export const TERRAIN_RULES: Record<TerrainType, TerrainRule> = {
+  [TerrainType.MEADOW]: { walkable: true, buildable: true, object: null, moveCost: 1 },
+  [TerrainType.FOREST]: { walkable: true, buildable: false, object: 'tree', moveCost: 1.5 },
+  [TerrainType.WATER]: { walkable: false, buildable: false, object: null, moveCost: 1 },
+  [TerrainType.ROCKS]: { walkable: false, buildable: false, object: 'rocks', moveCost: 1 },
+  [TerrainType.SAND]: { walkable: true, buildable: true, object: null, moveCost: 1.3 },
+  [TerrainType.SWAMP]: { walkable: true, buildable: false, object: null, moveCost: 3 },
+  [TerrainType.HILLS]: { walkable: true, buildable: true, object: null, moveCost: 2 },
+  [TerrainType.BIRCH_FOREST]: { walkable: true, buildable: false, object: 'tree', moveCost: 1.5, objectTint: 0xE8FFD0, objectScale: 1.0 },
+  [TerrainType.SPRUCE_FOREST]: { walkable: true, buildable: false, object: 'tree', moveCost: 1.8, objectTint: 0x7FA08A, objectScale: 1.4 },
+  [TerrainType.CLEARING]: { walkable: true, buildable: true, object: null, moveCost: 1, forage: true },
+  [TerrainType.RIVER]: { walkable: false, buildable: false, object: null, moveCost: 1 },
+  [TerrainType.STREAM]: { walkable: true, buildable: false, object: null, moveCost: 2.5 }, // Natural ford
+  [TerrainType.STUMP]: { walkable: true, buildable: false, object: null, moveCost: 1 }, // Becomes meadow after a while
+  [TerrainType.FIELD]: { walkable: true, buildable: false, object: null, moveCost: 1.2 }, // Back to meadow if its farm goes
+  [TerrainType.SAPLING]: { walkable: true, buildable: false, object: 'sapling', moveCost: 1.1 },
+  [TerrainType.YOUNG_FOREST]: { walkable: true, buildable: false, object: 'youngTree', moveCost: 1.3 },
+  [TerrainType.ROCKS_WORN]: { walkable: false, buildable: false, object: 'rocks', moveCost: 1, objectScale: 0.7 },
+  [TerrainType.ROCKS_RUBBLE]: { walkable: false, buildable: false, object: 'rocks', moveCost: 1, objectScale: 0.4 },
+  [TerrainType.PATH]: { walkable: true, buildable: true, object: null, moveCost: 0.8, speed: 1.25, road: { color: 0xB89B6A, width: 0.3 } }, // Worn in by feet
+  [TerrainType.ROAD]: { walkable: true, buildable: false, object: null, moveCost: 0.6, speed: 1.6, road: { color: 0x9E8E78, width: 0.5 } }
 }
 
-// Terrain generation settings
+// Terrain generation settings (biome table lives in config/biomes.ts)
 export const TERRAIN_CONFIG = {
-  waterThreshold: 0.3,    // Below this = water
-  forestThreshold: 0.6,   // Above this = forest
-  rocksChance: 0.01,      // 1% chance for rocks on meadow tiles
-  // Between water and forest = meadow
-  noiseScale: 0.05        // Scale for noise generation (smaller = larger features)
+  waterThreshold: 0.33    // Elevation below this = water
+}
+
+// Hydrology (rivers and lakes carved after biome generation)
+export const HYDROLOGY_CONFIG = {
+  springSpacing: 14,        // One spring candidate per N x N tiles
+  springChance: 0.6,        // Chance a candidate on high ground becomes a spring
+  springElevation: 0.6,     // Minimum elevation for a spring
+  maxRiverLength: 160,      // Rivers dry up after this many tiles (also bounds how far chunks look for springs)
+  maxLakeSize: 60,          // Largest pit that fills into a lake before the river gives up
+  maxLakesPerRiver: 3,      // A river ends in the last lake it may fill (also bounds how far chunks look)
+  flowPerTile: 0.05,        // Flow picked up from the catchment per tile travelled
+  streamMaxFlow: 2,         // Below this a river is a shallow, wadeable stream
+  widenFlow: 4,             // Flow at which the river gets a second tile of width
+  widenFlowWide: 8          // Flow at which the river gets a third tile of width
 }
 
 // Time settings
@@ -64,38 +138,169 @@ export const GAME_TITLE = 'Bůh Vesnice'
 export const VILLAGER_ANIM_INTERVAL = 300  // ms between animation frames
 export const VILLAGER_SPEED = 1
 export const VILLAGER_SCALE_FACTOR = 0.4
+export const VILLAGER_WANDER_RADIUS = 8 // Tiles idle villagers stroll from where they stand
+
+// Pathfinding
+export const PATHFINDING_CONFIG = {
+  maxSearchNodes: 4000,   // Give up on a path after expanding this many tiles (the world is unbounded)
+  cacheSize: 256,         // Paths remembered until the world changes
+  retryInterval: 1500,    // ms a villager waits before retrying when no path was found
+  unreachableMemory: 30000 // ms work searches skip a site nobody found a path to
+}
+
+// Villager needs (rates are per in-game day, needs run 0..1)
+export const NEEDS_CONFIG = {
+  foodDecay: 0.4,           // Hunger builds up all the time
+  restDecay: 0.8,           // Tiredness while awake
+  restRecovery: 2.5,        // Sleeping at home
+  warmthDecayNight: 1.5,    // Outdoors after dusk
+  warmthRecoveryDay: 0.4,   // Outdoors in daylight
+  warmthRecoveryHome: 3,    // By the fire at home
+  mealSize: 1,              // Berries eaten per meal
+  workUtility: 0.4,         // Baseline urge to keep working
+  errandBonus: 0.5,         // Extra urge to finish delivering a carried load
+  commitBonus: 0.1,         // Stick with the current activity (avoids flip-flopping)
+  lowNeed: 0.25,            // Below this, work slows down
+  minEfficiency: 0.4,       // Work speed with a need fully unmet
+  leaveAfter: 120000        // ms of an unmet need before the villager leaves the village
+}
+
+// Households and life cycle (ages in game days)
+export const POPULATION_CONFIG = {
+  adultAge: 2,                // Children grow up and start working
+  elderAge: 8,
+  lifespan: [10, 13],         // Range of ages at which villagers die of old age
+  settlerAge: [2, 5],         // Settlers arrive as adults of this age
+  birthCheckInterval: 5000,   // ms between chances of a birth in each home
+  birthChance: 0.1,           // Per home with room, an adult and enough food
+  birthFood: 5,               // Food in stock needed, eaten when a child is born
+  childScale: 0.6,            // Child sprite size relative to an adult
+  elderTint: 0xCCCCCC
+}
+
+// Resources, in HUD order
+export const RESOURCE_CONFIG: Record<ResourceType, { label: string, icon: string, initial: number }> = {
+  wood: { label: 'Dřevo', icon: '🪵', initial: 20 }, // Enough for the first shelters
+  planks: { label: 'Prkna', icon: '🪚', initial: 0 },
+  stone: { label: 'Kámen', icon: '🪨', initial: 0 },
+  food: { label: 'Jídlo', icon: '🍖', initial: 0 },
+  berries: { label: 'Bobule', icon: '🫐', initial: 0 },
+  blocks: { label: 'Kvádry', icon: '🧱', initial: 0 },
+  meat: { label: 'Maso', icon: '🥩', initial: 0 },
+  hides: { label: 'Kůže', icon: '🐾', initial: 0 }
+}
+export const EDIBLE_RESOURCES: ResourceType[] = ['food', 'meat', 'berries'] // Eaten in this order
+export const RESOURCE_RATE_WINDOW = 30000   // ms of history behind income/expense rates
+export const RESOURCE_TREND_INTERVAL = 1000 // ms between HUD trend arrow refreshes
+export const RESOURCE_TREND_THRESHOLD = 0.5 // Net change per minute that counts as a trend
 
 // Work timings
 export const TREE_WORK_DURATION = 2000  // ms to cut a tree
 export const WOOD_PER_DELIVERY = 3
-export const FOREST_TO_MEADOW_DELAY = 5000  // ms before forest becomes meadow
-
-// Building settings
-export const BUILDING_CONFIG = {
-  house: {
-    size: 2,        // 2x2 tiles
-    centerOffset: 1.0,
-    scaleFactor: 1.5,
-    textureKey: 'house'
-  },
-  teepee: {
-    size: 1,        // 1x1 tile
-    centerOffset: 0.5,
-    scaleFactor: 0.8,
-    textureKey: 'teepee'
-  },
-  villager: {
-    size: 1,
-    centerOffset: 0.5,
-    scaleFactor: 0.4,
-    textureKey: 'villager_walk_1'
-  }
-} as const
+export const FOREST_TO_MEADOW_DELAY = 5000  // ms before a stump becomes meadow
+
+// Each quarrying trip breaks rocks down one stage; the last leaves meadow
+export const QUARRY_STAGES: Partial<Record<TerrainType, TerrainType>> = {
+  [TerrainType.ROCKS]: TerrainType.ROCKS_WORN,
+  [TerrainType.ROCKS_WORN]: TerrainType.ROCKS_RUBBLE,
+  [TerrainType.ROCKS_RUBBLE]: TerrainType.MEADOW
+}
+
+// Forest ecology: meadow next to forest seeds saplings that grow back into forest
+export const ECOLOGY_CONFIG = {
+  tickInterval: 1000,         // ms between ecology updates
+  samplesPerTick: 20,         // Loaded tiles checked for seeding per update
+  seedChance: 0.05,           // Chance per neighbouring tree that a sampled meadow tile seeds
+  denseNeighbours: 5,         // A meadow tile with this many trees around is a clearing
+  fillChance: 0.6,            // Chance a sampled clearing tile seeds
+  youngDays: 1,               // Game days from sapling to young forest
+  matureDays: 3               // Game days from sapling to choppable forest
+}
+
+// Farming
+export const FARM_CONFIG = {
+  growDays: 3,                // Game days from sowing to harvest
+  harvest: { resource: 'food', amount: 3 } as CarriedLoad, // Per field tile
+  cropScale: 0.5              // Crop sprite width in tiles
+}
+
+// Production buildings
+export const PRODUCTION_CHECK_INTERVAL = 1000 // ms between refilling inputs, clearing outputs and starting work
+
+// Construction sites
+export const CONSTRUCTION_CONFIG = {
+  haulBatch: 5,               // Materials carried per hauling trip
+  siteAlpha: 0.45,            // Building sprite transparency while under construction
+  scaffoldColor: 0x8B5A2B,
+  progressWidth: 40,
+  progressHeight: 5,
+  progressColor: 0xFFD700,
+  progressBackground: 0x000000
+}
+
+// Taking buildings down
+export const REMOVAL_CONFIG = {
+  demolishRefund: 0.5,        // Share of the cost returned to storage when demolished
+  moveSalvage: 0.75           // Share of the cost reused when moved; the rest is paid again
+}
+
+// Roads drawn with the road tool, and paths worn in by villagers walking the same way
+export const ROAD_CONFIG = {
+  cost: { stone: 1 },         // Per road tile
+  // Only meadow is paved or worn in: a removed road gives meadow back
+  pavable: [TerrainType.MEADOW, TerrainType.PATH],
+  wearable: [TerrainType.MEADOW],
+  wearSteps: 30,              // Footsteps on a tile before it becomes a path
+  wearDecay: 1,               // Footsteps forgotten per decay tick (grass grows back)
+  decayInterval: 20000        // ms between decay ticks
+}
+
+// Wolves come out of deep forest at night and hunt villagers caught outside
+export const WOLF_CONFIG = {
+  maxWolves: 3,
+  spawnInterval: 8000,        // ms between spawn attempts at night
+  spawnSamples: 20,           // Random loaded tiles tried per attempt
+  deepForest: 2,              // Trees all around this many tiles out make deep forest
+  roamRadius: 6,              // Tiles a wolf roams from where it stands
+  idleTime: [2000, 6000],     // ms a wolf stands before roaming on
+  speed: 0.7,                 // px per frame while roaming
+  chaseSpeed: 1.3,            // A little faster than a villager on open ground
+  senseRadius: 5,             // Tiles at which a wolf notices a villager
+  chaseDuration: 6000,        // ms before a wolf gives up
+  catchDistance: 8,           // px
+  restAfterCatch: 15000,      // ms a wolf stays put after a kill
+  fleeDistance: 6,            // Tiles the homeless run from a wolf
+  scale: 0.45                 // Sprite width in tiles
+}
+
+// Deer and boar herds grazing at the forest edge, and the hunters after them
+export const WILDLIFE_CONFIG = {
+  maxHerds: 6,
+  spawnInterval: 15000,       // ms between spawn attempts
+  spawnSamples: 20,           // Random loaded tiles tried per attempt
+  forestEdge: 3,              // Trees needed within two tiles of where a herd appears
+  grazing: [TerrainType.MEADOW, TerrainType.CLEARING],
+  herdSpread: 2,              // Tiles animals graze from the herd's centre
+  herdRoam: 8,                // Tiles a herd moves on to a new pasture
+  herdMoveTime: [20000, 40000], // ms a herd stays on one pasture
+  grazeTime: [1500, 5000],    // ms an animal grazes before taking a few steps
+  fleeRadius: 3,              // Villagers this close scare the herd off
+  fleeDistance: 8,            // Tiles the herd runs
+  fleeTime: 4000,             // ms animals run before calming down
+  breedInterval: 40000,       // ms between births in a herd
+  areaSize: 32,               // Side of the square forest area a population cap applies to
+  treesPerAnimal: 40,         // Forest needed to feed one animal
+  maxPerArea: 12,
+  huntRange: 4,               // Tiles from the animal a hunter takes aim from
+  shotRange: 6                // An animal that wandered further off is missed
+}
 
 // Terrain object scale factors
 export const TERRAIN_OBJECT_SCALES = {
   tree: 1.2,
-  rocks: 1.0
+  rocks: 1.0,
+  sapling: 0.35,
+  youngTree: 0.7
 } as const
 
 // UI Configuration
@@ -112,10 +317,22 @@ export const UI_CONFIG = {
     textBackground: '#2a2a2a',
     confirmGreen: 0x00aa00,
     cancelRed: 0xaa0000,
-    emptyBuildingBg: 0x000000 // Dark background for empty indicator
+    emptyBuildingBg: 0x000000, // Dark background for empty indicator
+    trendUp: '#7CFC00',
+    trendDown: '#FF6347',
+    trendFlat: '#AAAAAA',
+    ghostValid: 0x00ff00,       // Green = can build here
+    ghostBlocked: 0xff0000,     // Red = tile blocked
+    ghostUnaffordable: 0xffaa00, // Orange = not enough resources
+    buttonDisabled: 0x555555,
+    tooltipBackground: '#000000',
+    statusIdle: 0x555555,
+    statusWorking: 0x2E7D32,
+    statusBlocked: 0xAA0000
   },
   alphas: {
     menuBackground: 0.9,
+    buttonDisabled: 0.5,
     ghostBuilding: 0.6,
     emptyBuildingBg: 0.7
   },
@@ -129,10 +346,22 @@ export const UI_CONFIG = {
     emptyIndicator: 10004,
     clock: 10004 // Clock UI depth
   },
+  resourceBar: {
+    spacing: 8,
+    rowSpacing: 4,          // Between rows when the bar wraps
+    trendUp: '▲',
+    trendDown: '▼',
+    trendFlat: '•'
+  },
   emptyBuildingIndicator: {
     size: 24,
     yOffset: 40,
     text: '?'
+  },
+  statusIndicator: {
+    idle: '…',
+    working: '⚙',
+    blocked: '!'
   }
 }
 
@@ -140,21 +369,63 @@ export const UI_CONFIG = {
 export const ASSETS = {
   BUILDINGS: {
     HOUSE: 'house',
-    TEEPEE: 'teepee'
+    TEEPEE: 'teepee',
+    HUT: 'hut',               // Drawn in BootScene
+    STOCKPILE: 'stockpile',   // Drawn in BootScene until there is art
+    STOREHOUSE: 'storehouse',
+    SAWMILL: 'sawmill',
+    STONEMASON: 'stonemason',
+    FARM: 'farm',
+    FORESTER: 'forester',
+    QUARRY: 'quarry',
+    WATCHTOWER: 'watchtower',
+    HUNTER: 'hunter'
   },
+  CROPS: ['crop_sprout', 'crop_young', 'crop_grown', 'crop_ripe'], // Growth stages, drawn in BootScene
   VILLAGERS: {
     WALK_1: 'villager_walk_1',
     WALK_2: 'villager_walk_2',
-    WOLF: 'wolf' // New wolf asset key
+    WOLF: 'wolf' // Drawn in BootScene unless a sprite is loaded
+  },
+  ANIMALS: {
+    DEER: 'deer',             // Drawn in BootScene
+    BOAR: 'boar'
   },
   TERRAIN: {
     TREE: 'tree',
-    ROCKS: 'rocks'
+    ROCKS: 'rocks',
+    SAPLING: 'sapling',       // Drawn in BootScene
+    YOUNG_TREE: 'young_tree'
   },
   UI: {
-    VILLAGER_ICON: 'villager_walk_1' // Reuse for now
+    VILLAGER_ICON: 'villager_walk_1', // Reuse for now
+    DEMOLISH_ICON: 'tool_demolish',   // Drawn in BootScene
+    MOVE_ICON: 'tool_move',
+    ROAD_ICON: 'tool_road'
   },
   EFFECTS: {
     LIGHT: 'light_glow' // Key for procedural texture
   }
 }
+
+// Sprite standing on each kind of terrain object
+export const TERRAIN_OBJECT_TEXTURES: Record<TerrainObjectType, string> = {
+  tree: ASSETS.TERRAIN.TREE,
+  rocks: ASSETS.TERRAIN.ROCKS,
+  sapling: ASSETS.TERRAIN.SAPLING,
+  youngTree: ASSETS.TERRAIN.YOUNG_TREE
+}
+
+// Per-species tuning for the herds
+export const ANIMAL_SPECIES: Record<AnimalSpecies, {
+  texture: string
+  herdSize: [number, number]
+  speed: number               // px per frame while grazing
+  fleeSpeed: number
+  scale: number               // Sprite width in tiles
+  meat: number                // Carried home by the hunter
+  hides: number               // Left at the kill for haulers
+}> = {
+  deer: { texture: ASSETS.ANIMALS.DEER, herdSize: [3, 5], speed: 0.4, fleeSpeed: 1.8, scale: 0.5, meat: 3, hides: 2 },
+  boar: { texture: ASSETS.ANIMALS.BOAR, herdSize: [2, 4], speed: 0.35, fleeSpeed: 1.3, scale: 0.45, meat: 4, hides: 1 }
+}
@@ -0,0 +1,94 @@
+/**
+ * Job Configuration
+ * Tuning for every kind of work villagers do. Behaviour (where to go and
+ * what happens when the work is done) lives in systems/JobDefinitions.ts.
+ */
+
+import { TREE_WORK_DURATION, WOOD_PER_DELIVERY } from './constants'
+import type { CarriedLoad, JobType, Profession } from '@/types/game'
+
+export interface JobConfig {
+  label: string               // Czech name shown in the UI
+  priority: number            // Higher = taken from the queue first
+  professions: Profession[] | 'any'  // Who can do this work ('any' includes the homeless)
+  workDuration: number        // ms spent working at the site
+  yield?: CarriedLoad         // What one round of work produces
+}
+
+export const JOB_CONFIG: Record<JobType, JobConfig> = {
+  // Everyone pitches in on construction: settlers build their own first homes
+  building: {
+    label: 'Stavba',
+    priority: 50,
+    professions: 'any',
+    workDuration: 3000
+  },
+  hauling: {
+    label: 'Přenášení',
+    priority: 40,
+    professions: 'any',
+    workDuration: 300
+  },
+  // Posted by production buildings for their hired worker
+  production: {
+    label: 'Výroba',
+    priority: 35,
+    professions: ['sawyer', 'mason'],
+    workDuration: 4000  // Recipes set their own
+  },
+  // Posted by farms for their farmer: sowing, and harvesting with a load of food
+  farming: {
+    label: 'Polní práce',
+    priority: 30,
+    professions: ['farmer'],
+    workDuration: 2000
+  },
+  // Posted by foresters' lodges for their forester
+  forestry: {
+    label: 'Sázení stromů',
+    priority: 25,
+    professions: ['forester'],
+    workDuration: 2500
+  },
+  // Posted by hunters' lodges for their hunter: stalk, aim, shoot
+  hunting: {
+    label: 'Lov',
+    priority: 25,
+    professions: ['hunter'],
+    workDuration: 2000
+  },
+  gathering: {
+    label: 'Sběr lesních plodů',
+    priority: 30,
+    professions: ['gatherer'],
+    workDuration: 1500,
+    yield: { resource: 'berries', amount: 2 }
+  },
+  woodcutting: {
+    label: 'Kácení',
+    priority: 20,
+    professions: ['woodcutter'],
+    workDuration: TREE_WORK_DURATION,
+    yield: { resource: 'wood', amount: WOOD_PER_DELIVERY }
+  },
+  quarrying: {
+    label: 'Lámání kamene',
+    priority: 20,
+    professions: ['quarrier'],
+    workDuration: 3000,
+    yield: { resource: 'stone', amount: 2 }
+  }
+}
+
+export const PROFESSION_LABELS: Record<Profession, string> = {
+  woodcutter: 'Dřevorubec',
+  gatherer: 'Sběrač',
+  hauler: 'Nosič',
+  builder: 'Stavitel',
+  quarrier: 'Lamač kamene',
+  sawyer: 'Pilař',
+  mason: 'Kameník',
+  farmer: 'Sedlák',
+  forester: 'Hajný',
+  hunter: 'Lovec'
+}
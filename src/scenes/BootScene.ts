@@ -60,8 +60,272 @@ export class BootScene extends Phaser.Scene {
   }
 
   create(): void {
+    this.createPlaceholderTextures()
+
     // Transition to the game scene
     console.log('BootScene complete, starting GameScene')
     this.scene.start('GameScene')
   }
+
+  /**
+   * Simple drawn stand-ins for buildings that have no sprite yet
+   */
+  private createPlaceholderTextures(): void {
+    const graphics = this.make.graphics({ x: 0, y: 0 }, false)
+
+    // Hut: low wattle walls under a thatched roof
+    graphics.fillStyle(0xA0784A, 1)
+    graphics.fillRect(20, 64, 88, 52)
+    graphics.fillStyle(0xC9A74E, 1)
+    graphics.fillTriangle(4, 72, 64, 16, 124, 72)
+    graphics.fillStyle(0x3B2410, 1)
+    graphics.fillRect(54, 84, 20, 32)
+    graphics.generateTexture(ASSETS.BUILDINGS.HUT, 128, 120)
+    graphics.clear()
+
+    // Stockpile: a stack of logs, bark first, then the cut ends
+    const logs = [[28, 78], [64, 78], [100, 78], [46, 52], [82, 52], [64, 26]]
+    graphics.fillStyle(0x6B4226, 1)
+    logs.forEach(([x, y]) => graphics.fillCircle(x, y, 16))
+    graphics.fillStyle(0xC19A6B, 1)
+    logs.forEach(([x, y]) => graphics.fillCircle(x, y, 9))
+    graphics.generateTexture(ASSETS.BUILDINGS.STOCKPILE, 128, 96)
+    graphics.clear()
+
+    // Storehouse: plank walls under a pitched roof
+    graphics.fillStyle(0x8B5A2B, 1)
+    graphics.fillRect(24, 90, 208, 120)
+    graphics.fillStyle(0x5C3A1E, 1)
+    graphics.fillTriangle(8, 96, 128, 16, 248, 96)
+    graphics.fillStyle(0x3B2410, 1)
+    graphics.fillRect(104, 140, 48, 70)
+    graphics.lineStyle(2, 0x5C3A1E, 1)
+    for (let y = 110; y < 210; y += 20) {
+      graphics.lineBetween(24, y, 232, y)
+    }
+    graphics.generateTexture(ASSETS.BUILDINGS.STOREHOUSE, 256, 216)
+    graphics.clear()
+
+    // Sawmill: open shed over a log with a round blade
+    graphics.fillStyle(0x5C3A1E, 1)
+    graphics.fillRect(24, 60, 12, 140)
+    graphics.fillRect(220, 60, 12, 140)
+    graphics.fillTriangle(8, 70, 128, 10, 248, 70)
+    graphics.fillStyle(0x8B5A2B, 1)
+    graphics.fillRect(40, 160, 176, 28)
+    graphics.fillStyle(0xB0B0B0, 1)
+    graphics.fillCircle(128, 150, 30)
+    graphics.fillStyle(0x707070, 1)
+    graphics.fillCircle(128, 150, 8)
+    graphics.generateTexture(ASSETS.BUILDINGS.SAWMILL, 256, 200)
+    graphics.clear()
+
+    // Stonemason: stone hut with a pile of blocks
+    graphics.fillStyle(0x8A8A8A, 1)
+    graphics.fillRect(16, 50, 80, 70)
+    graphics.fillStyle(0x5C3A1E, 1)
+    graphics.fillTriangle(6, 56, 56, 14, 106, 56)
+    graphics.fillStyle(0xBDBDBD, 1)
+    graphics.fillRect(96, 96, 22, 22)
+    graphics.fillRect(104, 76, 18, 20)
+    graphics.generateTexture(ASSETS.BUILDINGS.STONEMASON, 128, 120)
+    graphics.clear()
+
+    // Farm: barn with a white-framed door and a haystack
+    graphics.fillStyle(0x9E2A2B, 1)
+    graphics.fillRect(24, 90, 160, 110)
+    graphics.fillStyle(0x4A2C17, 1)
+    graphics.fillTriangle(12, 96, 104, 24, 196, 96)
+    graphics.fillStyle(0xF0F0F0, 1)
+    graphics.fillRect(76, 130, 56, 70)
+    graphics.fillStyle(0x6B1D1E, 1)
+    graphics.fillRect(82, 136, 44, 64)
+    graphics.fillStyle(0xE3C16F, 1)
+    graphics.fillEllipse(216, 180, 64, 48)
+    graphics.generateTexture(ASSETS.BUILDINGS.FARM, 256, 210)
+    graphics.clear()
+
+    // Crops: stalks getting taller and turning from green to gold
+    const stages = [
+      { height: 10, color: 0x7CCB5A, ears: false },
+      { height: 22, color: 0x5FA83E, ears: false },
+      { height: 36, color: 0x8DA83E, ears: true },
+      { height: 44, color: 0xD9B44A, ears: true }
+    ]
+    stages.forEach(({ height, color, ears }, index) => {
+      graphics.lineStyle(3, color, 1)
+      graphics.fillStyle(color, 1)
+      for (const x of [10, 22, 34, 46, 58]) {
+        graphics.lineBetween(x, 48, x, 48 - height)
+        if (ears) graphics.fillEllipse(x, 48 - height, 6, 12)
+      }
+      graphics.generateTexture(ASSETS.CROPS[index], 64, 48)
+      graphics.clear()
+    })
+
+    // Forester's lodge: log cabin with a sapling by the door
+    graphics.fillStyle(0x7A4B26, 1)
+    graphics.fillRect(16, 56, 84, 60)
+    graphics.fillStyle(0x2F5D2A, 1)
+    graphics.fillTriangle(6, 62, 58, 18, 110, 62)
+    graphics.lineStyle(2, 0x4E2F16, 1)
+    for (let y = 68; y < 116; y += 12) {
+      graphics.lineBetween(16, y, 100, y)
+    }
+    graphics.fillStyle(0x3B2410, 1)
+    graphics.fillRect(48, 84, 20, 32)
+    graphics.fillStyle(0x4CAF50, 1)
+    graphics.fillCircle(114, 96, 10)
+    graphics.generateTexture(ASSETS.BUILDINGS.FORESTER, 128, 120)
+    graphics.clear()
+
+    // Quarry: stone-footed hut with a pick leaning on a block
+    graphics.fillStyle(0x8A8A8A, 1)
+    graphics.fillRect(16, 84, 80, 32)
+    graphics.fillStyle(0x8B5A2B, 1)
+    graphics.fillRect(16, 56, 80, 28)
+    graphics.fillStyle(0x5C3A1E, 1)
+    graphics.fillTriangle(6, 60, 56, 20, 106, 60)
+    graphics.fillStyle(0x3B2410, 1)
+    graphics.fillRect(58, 84, 18, 32)
+    graphics.fillStyle(0xBDBDBD, 1)
+    graphics.fillRect(100, 100, 22, 16)
+    graphics.lineStyle(3, 0x6B4226, 1)
+    graphics.lineBetween(106, 100, 118, 72)
+    graphics.lineStyle(3, 0x707070, 1)
+    graphics.lineBetween(108, 70, 126, 78)
+    graphics.generateTexture(ASSETS.BUILDINGS.QUARRY, 128, 120)
+    graphics.clear()
+
+    // Watchtower: log stilts under a roofed lookout
+    graphics.fillStyle(0x6B4226, 1)
+    graphics.fillRect(30, 80, 10, 116)
+    graphics.fillRect(88, 80, 10, 116)
+    graphics.lineStyle(6, 0x5C3A1E, 1)
+    graphics.lineBetween(35, 110, 93, 170)
+    graphics.lineBetween(93, 110, 35, 170)
+    graphics.fillStyle(0x8B5A2B, 1)
+    graphics.fillRect(20, 56, 88, 28)
+    graphics.fillStyle(0x5C3A1E, 1)
+    graphics.fillTriangle(10, 40, 64, 4, 118, 40)
+    graphics.fillRect(24, 40, 6, 18)
+    graphics.fillRect(98, 40, 6, 18)
+    graphics.generateTexture(ASSETS.BUILDINGS.WATCHTOWER, 128, 200)
+    graphics.clear()
+
+    // Hunter's lodge: log cabin with hides stretched on a frame
+    graphics.fillStyle(0x6B4226, 1)
+    graphics.fillRect(12, 58, 80, 58)
+    graphics.fillStyle(0x4E2F16, 1)
+    graphics.fillTriangle(2, 64, 52, 22, 102, 64)
+    graphics.fillStyle(0x3B2410, 1)
+    graphics.fillRect(42, 84, 20, 32)
+    graphics.lineStyle(3, 0x5C3A1E, 1)
+    graphics.lineBetween(100, 116, 100, 70)
+    graphics.lineBetween(124, 116, 124, 70)
+    graphics.lineBetween(98, 72, 126, 72)
+    graphics.fillStyle(0xB07A4A, 1)
+    graphics.fillEllipse(112, 90, 20, 30)
+    graphics.generateTexture(ASSETS.BUILDINGS.HUNTER, 128, 120)
+    graphics.clear()
+
+    // Sapling and young tree: thin trunks under small crowns, scaled down in TERRAIN_OBJECT_SCALES
+    graphics.fillStyle(0x6B4226, 1)
+    graphics.fillRect(30, 36, 4, 28)
+    graphics.fillStyle(0x7CCB5A, 1)
+    graphics.fillEllipse(24, 36, 16, 10)
+    graphics.fillEllipse(40, 30, 16, 10)
+    graphics.generateTexture(ASSETS.TERRAIN.SAPLING, 64, 64)
+    graphics.clear()
+
+    graphics.fillStyle(0x6B4226, 1)
+    graphics.fillRect(28, 72, 8, 56)
+    graphics.fillStyle(0x3E8E3A, 1)
+    graphics.fillTriangle(32, 8, 6, 84, 58, 84)
+    graphics.generateTexture(ASSETS.TERRAIN.YOUNG_TREE, 64, 128)
+    graphics.clear()
+
+    // Menu tools, drawn large like the building sprites the menu scales down
+    graphics.lineStyle(48, 0xCC3333, 1)
+    graphics.lineBetween(60, 60, 260, 260)
+    graphics.lineBetween(260, 60, 60, 260)
+    graphics.generateTexture(ASSETS.UI.DEMOLISH_ICON, 320, 320)
+    graphics.clear()
+
+    graphics.lineStyle(32, 0xE0E0E0, 1)
+    graphics.lineBetween(160, 50, 160, 270)
+    graphics.lineBetween(50, 160, 270, 160)
+    graphics.fillStyle(0xE0E0E0, 1)
+    graphics.fillTriangle(160, 10, 110, 70, 210, 70)
+    graphics.fillTriangle(160, 310, 110, 250, 210, 250)
+    graphics.fillTriangle(10, 160, 70, 110, 70, 210)
+    graphics.fillTriangle(310, 160, 250, 110, 250, 210)
+    graphics.generateTexture(ASSETS.UI.MOVE_ICON, 320, 320)
+    graphics.clear()
+
+    // Road icon: a paved strip running into the distance
+    graphics.fillStyle(0x9E8E78, 1)
+    graphics.fillPoints([
+      new Phaser.Geom.Point(130, 30), new Phaser.Geom.Point(190, 30),
+      new Phaser.Geom.Point(290, 290), new Phaser.Geom.Point(30, 290)
+    ], true)
+    graphics.fillStyle(0xF0E6C8, 1)
+    graphics.fillRect(152, 60, 16, 50)
+    graphics.fillRect(150, 150, 20, 60)
+    graphics.fillRect(148, 240, 24, 45)
+    graphics.generateTexture(ASSETS.UI.ROAD_ICON, 320, 320)
+    graphics.clear()
+
+    // Wolf, facing right: only when no wolf sprite was loaded
+    if (!this.textures.exists(ASSETS.VILLAGERS.WOLF)) {
+      graphics.fillStyle(0x5A5A60, 1)
+      graphics.fillEllipse(44, 36, 56, 24)                 // Body
+      graphics.fillRect(22, 40, 6, 22)                     // Legs
+      graphics.fillRect(34, 42, 6, 20)
+      graphics.fillRect(52, 42, 6, 20)
+      graphics.fillRect(62, 40, 6, 22)
+      graphics.fillTriangle(16, 30, 2, 44, 20, 40)         // Tail
+      graphics.fillEllipse(76, 26, 22, 18)                 // Head
+      graphics.fillTriangle(82, 24, 96, 30, 82, 34)        // Snout
+      graphics.fillTriangle(68, 20, 72, 6, 78, 18)         // Ear
+      graphics.fillStyle(0xFFD54F, 1)
+      graphics.fillCircle(80, 24, 2)                       // Eye
+      graphics.generateTexture(ASSETS.VILLAGERS.WOLF, 96, 64)
+      graphics.clear()
+    }
+
+    // Deer, facing right: slender legs, white tail and antlers
+    graphics.fillStyle(0xA0663A, 1)
+    graphics.fillEllipse(42, 40, 50, 24)                   // Body
+    graphics.fillRect(24, 46, 4, 32)                       // Legs
+    graphics.fillRect(32, 48, 4, 30)
+    graphics.fillRect(50, 48, 4, 30)
+    graphics.fillRect(58, 46, 4, 32)
+    graphics.fillRect(62, 18, 8, 22)                       // Neck
+    graphics.fillEllipse(72, 16, 20, 12)                   // Head
+    graphics.fillStyle(0xF5F0E6, 1)
+    graphics.fillEllipse(17, 36, 8, 10)                    // Tail
+    graphics.lineStyle(2, 0x5C3A1E, 1)
+    graphics.lineBetween(68, 10, 62, 0)                    // Antlers
+    graphics.lineBetween(72, 10, 80, 0)
+    graphics.lineBetween(64, 4, 58, 4)
+    graphics.lineBetween(77, 4, 84, 6)
+    graphics.generateTexture(ASSETS.ANIMALS.DEER, 96, 80)
+    graphics.clear()
+
+    // Boar, facing right: low and bristly with tusks
+    graphics.fillStyle(0x4A3A30, 1)
+    graphics.fillEllipse(44, 52, 60, 32)                   // Body
+    graphics.fillTriangle(30, 38, 50, 28, 64, 40)          // Bristly back
+    graphics.fillRect(24, 60, 7, 16)                       // Legs
+    graphics.fillRect(36, 62, 7, 14)
+    graphics.fillRect(52, 62, 7, 14)
+    graphics.fillRect(62, 60, 7, 16)
+    graphics.fillTriangle(72, 42, 92, 54, 72, 64)          // Head
+    graphics.fillTriangle(70, 40, 74, 30, 80, 44)          // Ear
+    graphics.fillStyle(0xF5F0E6, 1)
+    graphics.fillTriangle(84, 56, 90, 48, 88, 58)          // Tusk
+    graphics.generateTexture(ASSETS.ANIMALS.BOAR, 96, 80)
+    graphics.destroy()
+  }
 }
\ No newline at end of file
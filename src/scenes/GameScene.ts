@@ -2,65 +2,123 @@ import Phaser from 'phaser'
 import {
   TILE_WIDTH,
   TILE_HEIGHT,
-  WORLD_WIDTH,
-  WORLD_HEIGHT,
-  TERRAIN_COLORS,
-  TERRAIN_CONFIG,
+  CHUNK_SIZE,
+  SPAWN_SEARCH_RADIUS,
+  WORK_SEARCH_RADIUS,
+  TERRAIN_RULES,
   TerrainType,
   VILLAGER_ANIM_INTERVAL,
   VILLAGER_SPEED,
   VILLAGER_SCALE_FACTOR,
-  TREE_WORK_DURATION,
-  WOOD_PER_DELIVERY,
+  VILLAGER_WANDER_RADIUS,
   FOREST_TO_MEADOW_DELAY,
+  QUARRY_STAGES,
   TERRAIN_OBJECT_SCALES,
+  TERRAIN_OBJECT_TEXTURES,
   ASSETS,
-  TIME_CONFIG
+  TIME_CONFIG,
+  PATHFINDING_CONFIG,
+  NEEDS_CONFIG,
+  UI_CONFIG,
+  EDIBLE_RESOURCES,
+  RESOURCE_CONFIG,
+  RESOURCE_TREND_INTERVAL,
+  PRODUCTION_CHECK_INTERVAL,
+  ECOLOGY_CONFIG,
+  REMOVAL_CONFIG,
+  POPULATION_CONFIG,
+  ROAD_CONFIG,
+  WOLF_CONFIG
 } from '@/config/constants'
 import { gridToScreen, screenToGrid } from '@/utils/isometric'
-import { NoiseGenerator } from '@/utils/noise'
-import type { Villager, CutTree, TerrainObjectData, BuildingType } from '@/types/game'
+import { SeededRandom, deriveSeed } from '@/utils/random'
+import { isBuildableTerrain, getWorkTileKind, getSpeedMultiplier, isRoadTerrain } from '@/utils/terrain'
+import { resolveWorldSeed } from '@/utils/seed'
+import { BUILDING_DEFINITIONS, STARTING_STORAGE, getMenuEntry, getCostShare, isTool } from '@/config/buildings'
+import type {
+  Villager,
+  CutTree,
+  TerrainObjectData,
+  TerrainObjectType,
+  BuildingType,
+  PlacementType,
+  MenuItem,
+  ToolType,
+  LifeStage,
+  Building,
+  GridPoint,
+  WorkTileKind,
+  ResourceType,
+  CarriedLoad,
+  Pickup,
+  ProductionStatus,
+  Profession,
+  ResourceCost
+} from '@/types/game'
 import { InputManager } from '@/systems/InputManager'
 import { UIManager } from '@/ui/UIManager'
 import { TimeManager } from '@/systems/TimeManager'
+import { ChunkManager, type Chunk, type GridBounds } from '@/systems/ChunkManager'
+import { TerrainRenderer } from '@/systems/TerrainRenderer'
+import { SpatialIndex } from '@/systems/SpatialIndex'
+import { Pathfinder } from '@/systems/Pathfinder'
+import { JobManager } from '@/systems/JobManager'
+import { NeedsManager } from '@/systems/NeedsManager'
+import { PopulationManager } from '@/systems/PopulationManager'
+import { ResourceManager, RESOURCE_CHANGED } from '@/systems/ResourceManager'
+import { ConstructionManager } from '@/systems/ConstructionManager'
+import { StorageManager } from '@/systems/StorageManager'
+import { FarmManager } from '@/systems/FarmManager'
+import { EcologyManager } from '@/systems/EcologyManager'
+import { RoadManager, getStrokeTiles } from '@/systems/RoadManager'
+import { WolfManager } from '@/systems/WolfManager'
+import { HerdManager } from '@/systems/HerdManager'
+import { ProductionManager } from '@/systems/ProductionManager'
 
 /**
  * GameScene
  * Main gameplay scene with isometric terrain
  */
 export class GameScene extends Phaser.Scene {
-  private terrain: TerrainType[][] = []
-  private tiles: Phaser.GameObjects.Graphics[] = []
-  private tileGraphicsMap: Map<string, Phaser.GameObjects.Graphics> = new Map() // Map "x,y" -> tile graphics
-  private trees: Phaser.GameObjects.Image[] = []
+  // Streamed world: terrain data lives in chunks, graphics only for loaded chunks
+  private chunkManager!: ChunkManager
+  private spatialIndex: SpatialIndex = new SpatialIndex() // Nearest/radius queries for trees, buildings, villagers
+  private pathfinder!: Pathfinder // A* for villagers, cached until the world changes
+  private terrainRenderer!: TerrainRenderer // Ground tiles baked into one texture per chunk
   private treeMap: Map<string, Phaser.GameObjects.Image> = new Map() // Map "x,y" -> tree sprite
-  private rocks: Phaser.GameObjects.Image[] = []
   private rockMap: Map<string, Phaser.GameObjects.Image> = new Map() // Map "x,y" -> rock sprite
-  private houses: Phaser.GameObjects.Image[] = []
-  private teepees: Phaser.GameObjects.Image[] = []
   
   // Building data map: "gridX,gridY" -> Building Data
-  private buildingsMap: Map<string, { 
-    type: BuildingType, 
-    occupied: boolean, 
-    sprite: Phaser.GameObjects.Image,
-    emptyIndicator?: Phaser.GameObjects.Container,
-    gridX: number,
-    gridY: number,
-    lights?: Phaser.GameObjects.Image[] // Changed to array for multiple lights
-  }> = new Map()
+  private buildingsMap: Map<string, Building> = new Map()
   
-  private occupiedTiles: Set<string> = new Set() // Track occupied tiles (format: "x,y")
+  private occupiedTiles: Set<string> = new Set() // Tiles covered by buildings (format: "x,y"); trees/rocks come from terrain rules
+  private constructionManager!: ConstructionManager // Sites waiting for materials and builders
+  private upgradeSites: Map<Building, BuildingType> = new Map() // Upgrades under way -> tier they replace, restored if cancelled
+  private moveSites: Map<Building, GridPoint> = new Map() // Moves under way -> where the building stood, restored if cancelled
+  private productionManager!: ProductionManager // Recipes, buffers and workers of production buildings
+  private farmManager!: FarmManager // Fields, crops and farmers around farms
+  private ecologyManager!: EcologyManager // Saplings, forest regrowth and foresters
+  private roadManager!: RoadManager // Painted roads and paths worn in by foot traffic
+  private wolfManager!: WolfManager // Wolves hunting at night
+  private herdManager!: HerdManager // Deer and boar herds and hunters' lodges
 
   // Cut tree tracking
-  private cutTrees: CutTree[] = []
+  private cutTrees: CutTree[] = [] // Stumps waiting to turn into meadow
 
   // Villagers
   private villagers: Villager[] = []
+  private jobManager!: JobManager // Work queue and what each job does
+  private needsManager!: NeedsManager // Hunger, rest, warmth and what to do about them
+  private populationManager!: PopulationManager // Births, growing up, old age
+  private unreachableTiles: Map<string, number> = new Map() // Sites no path was found to ("x,y") -> time they are tried again
 
   // Resources
-  private woodCount: number = 0
-  private noiseGenerator!: NoiseGenerator
+  private resourceManager: ResourceManager = new ResourceManager()
+  private storageManager: StorageManager = new StorageManager(this.resourceManager) // Which building holds what
+
+  // Randomness: one seed drives everything, split into independent streams
+  private worldSeed: number = 0
+  private random!: SeededRandom // Gameplay decisions (wander targets)
 
   // Managers
   private inputManager!: InputManager
@@ -72,9 +130,19 @@ export class GameScene extends Phaser.Scene {
 
   // Building placement
   private placementMode = false
-  private placementBuildingType: BuildingType | null = null
+  private placementBuildingType: PlacementType | null = null
   private ghostBuilding: Phaser.GameObjects.Image | null = null
   private justEnteredPlacementMode = false
+  private movingBuilding: Building | null = null // Set while the ghost is a standing building being moved
+
+  // Demolish and move tools: pick a standing building
+  private toolMode: ToolType | null = null
+  private toolHandler: ((pointer: Phaser.Input.Pointer) => void) | null = null
+  private hoveredBuilding: Building | null = null
+
+  // Road tool: paints while the pointer is held down
+  private roadHandlers: Record<'pointerdown' | 'pointermove' | 'pointerup', (pointer: Phaser.Input.Pointer) => void> | null = null
+  private roadStroke: GridPoint | null = null // Last tile painted in the current stroke
   
   // Containers
   private terrainContainer!: Phaser.GameObjects.Container
@@ -121,23 +189,146 @@ export class GameScene extends Phaser.Scene {
         }
     }
 
-    // Initialize noise generator
-    this.noiseGenerator = new NoiseGenerator(Date.now())
+    // Initialize world seed and seeded generators
+    this.worldSeed = resolveWorldSeed()
+    this.random = new SeededRandom(deriveSeed(this.worldSeed, 2))
+
+    // World data is generated lazily, chunk by chunk, as it is first needed
+    this.chunkManager = new ChunkManager(this.worldSeed, {
+      onChunkGenerate: (chunk: Chunk) => this.spatialIndex.addChunk(chunk),
+      onChunkLoad: (chunk: Chunk) => this.loadChunk(chunk),
+      onChunkUnload: (chunk: Chunk) => this.unloadChunk(chunk)
+    })
+
+    this.pathfinder = new Pathfinder({
+      getTerrain: (gridX: number, gridY: number) => this.chunkManager.getTerrain(gridX, gridY),
+      isOccupied: (gridX: number, gridY: number) => this.occupiedTiles.has(`${gridX},${gridY}`)
+    })
+
+    this.jobManager = new JobManager({
+      getVillagerTile: (villager: Villager) => this.getVillagerTile(villager),
+      findWorkTile: (kind: WorkTileKind, fromX: number, fromY: number) => this.findWorkTile(kind, fromX, fromY),
+      isWorkTile: (kind: WorkTileKind, gridX: number, gridY: number) => getWorkTileKind(this.chunkManager.getTerrain(gridX, gridY)) === kind,
+      cutTree: (gridX: number, gridY: number) => this.cutTree(gridX, gridY),
+      quarryRock: (gridX: number, gridY: number) => this.quarryRock(gridX, gridY),
+      walkTo: (villager: Villager, gridX: number, gridY: number) => this.setVillagerDestination(villager, gridX, gridY),
+      wander: (villager: Villager) => this.wander(villager),
+      hasStorageSpace: (resource: ResourceType) => this.storageManager.hasSpace(resource),
+      findDropoff: (load: CarriedLoad, from: GridPoint) => this.findDropoff(load, from),
+      deliver: (load: CarriedLoad, at: GridPoint) => this.deliverResource(load, at)
+    })
+
+    this.productionManager = new ProductionManager(this.jobManager, {
+      getStock: (resource: ResourceType) => this.resourceManager.get(resource),
+      withdraw: (cost: ResourceCost, near: GridPoint) => this.storageManager.withdraw(cost, near),
+      hasStorageSpace: (resource: ResourceType) => this.storageManager.hasSpace(resource),
+      hireWorker: (building: Building, profession: Profession) => this.hireWorker(building, profession),
+      onStatusChange: (building: Building, status: ProductionStatus) => this.showStatusIndicator(building, status)
+    })
+    // Create world layers
+    this.createWorldContainers()
+
+    this.constructionManager = new ConstructionManager(this, this.objectsContainer, this.jobManager, {
+      isPickupValid: (pickup: Pickup) => this.getStoreAt(pickup.from) !== null,
+      onComplete: (building: Building) => this.completeBuilding(building)
+    })
+
+    this.farmManager = new FarmManager(this, this.objectsContainer, this.jobManager, {
+      getTerrain: (gridX: number, gridY: number) => this.chunkManager.getTerrain(gridX, gridY),
+      setTerrain: (gridX: number, gridY: number, type: TerrainType) => this.setTerrain(gridX, gridY, type),
+      isOccupied: (gridX: number, gridY: number) => this.occupiedTiles.has(`${gridX},${gridY}`),
+      getDays: () => this.timeManager.getDays(),
+      hasStorageSpace: (resource: ResourceType) => this.storageManager.hasSpace(resource),
+      hireWorker: (building: Building, profession: Profession) => this.hireWorker(building, profession)
+    })
+
+    // Workplaces hire, restock and hand out work on a timer
+    this.time.addEvent({
+      delay: PRODUCTION_CHECK_INTERVAL,
+      loop: true,
+      callback: () => {
+        this.productionManager.update()
+        this.farmManager.update()
+        this.herdManager.updateLodges()
+      }
+    })
+
+    this.ecologyManager = new EcologyManager(this.jobManager, new SeededRandom(deriveSeed(this.worldSeed, 3)), {
+      getTerrain: (gridX: number, gridY: number) => this.chunkManager.getTerrain(gridX, gridY),
+      setTerrain: (gridX: number, gridY: number, type: TerrainType) => this.setTerrain(gridX, gridY, type),
+      isOccupied: (gridX: number, gridY: number) => this.occupiedTiles.has(`${gridX},${gridY}`),
+      getLoadedBounds: () => this.chunkManager.getLoadedBounds(),
+      getDays: () => this.timeManager.getDays(),
+      hireWorker: (building: Building, profession: Profession) => this.hireWorker(building, profession)
+    })
+    this.time.addEvent({
+      delay: ECOLOGY_CONFIG.tickInterval,
+      loop: true,
+      callback: () => this.ecologyManager.update()
+    })
+
+    this.roadManager = new RoadManager({
+      getTerrain: (gridX: number, gridY: number) => this.chunkManager.getTerrain(gridX, gridY),
+      setTerrain: (gridX: number, gridY: number, type: TerrainType) => this.setTerrain(gridX, gridY, type),
+      isOccupied: (gridX: number, gridY: number) => this.occupiedTiles.has(`${gridX},${gridY}`)
+    })
+    this.time.addEvent({
+      delay: ROAD_CONFIG.decayInterval,
+      loop: true,
+      callback: () => this.roadManager.update()
+    })
 
-    // Generate terrain
-    this.generateTerrain()
+    this.wolfManager = new WolfManager(this, this.objectsContainer, new SeededRandom(deriveSeed(this.worldSeed, 5)), {
+      getTerrain: (gridX: number, gridY: number) => this.chunkManager.getTerrain(gridX, gridY),
+      isWalkable: (gridX: number, gridY: number) => this.pathfinder.isWalkable(gridX, gridY),
+      getLoadedBounds: () => this.chunkManager.getLoadedBounds(),
+      isNight: () => this.timeManager.isNight(),
+      findPrey: (gridX: number, gridY: number, radius: number) => this.spatialIndex.villagers.nearest(gridX, gridY, 1, radius,
+        villager => villager.state !== 'inside')[0] ?? null,
+      onCatch: (villager: Villager) => {
+        console.log('Villager was killed by wolves')
+        this.removeVillager(villager)
+      }
+    })
 
-    // Render terrain tiles
-    this.renderTerrain()
+    this.herdManager = new HerdManager(this, this.objectsContainer, this.jobManager, new SeededRandom(deriveSeed(this.worldSeed, 6)), {
+      getTerrain: (gridX: number, gridY: number) => this.chunkManager.getTerrain(gridX, gridY),
+      isWalkable: (gridX: number, gridY: number) => this.pathfinder.isWalkable(gridX, gridY),
+      getLoadedBounds: () => this.chunkManager.getLoadedBounds(),
+      findVillager: (gridX: number, gridY: number, radius: number) => this.spatialIndex.villagers.nearest(gridX, gridY, 1, radius,
+        villager => villager.state !== 'inside')[0] ?? null,
+      hasStorageSpace: (resource: ResourceType) => this.storageManager.hasSpace(resource),
+      hireWorker: (building: Building, profession: Profession) => this.hireWorker(building, profession)
+    })
 
     // Initialize Managers
     this.inputManager = new InputManager(this)
     this.uiManager = new UIManager(this, {
-      onBuildSelect: (type: BuildingType) => this.enterPlacementMode(type)
+      onBuildSelect: (item: MenuItem) => isTool(item) ? this.enterToolMode(item) : this.enterPlacementMode(item)
     })
     this.uiManager.create()
+    this.uiManager.updateWorldSeed(this.worldSeed)
+
+    // Resource bar follows the village totals; trend arrows refresh on a timer
+    this.resourceManager.on(RESOURCE_CHANGED, (type: ResourceType, amount: number) => {
+      this.uiManager.updateResource(type, amount, this.resourceManager.getCapacity(type))
+      this.uiManager.updateBuildingAvailability(this.resourceManager.getAll())
+    })
+    this.uiManager.updateBuildingAvailability(this.resourceManager.getAll())
+    this.time.addEvent({
+      delay: RESOURCE_TREND_INTERVAL,
+      loop: true,
+      callback: () => this.updateResourceTrends()
+    })
     
     this.timeManager = new TimeManager(this)
+    this.needsManager = new NeedsManager(this.timeManager)
+    this.populationManager = new PopulationManager(new SeededRandom(deriveSeed(this.worldSeed, 4)))
+    this.time.addEvent({
+      delay: POPULATION_CONFIG.birthCheckInterval,
+      loop: true,
+      callback: () => this.updateBirths()
+    })
 
     // Create darkness overlay (below UI but above world)
     this.darknessOverlay = this.add.rectangle(0, 0, this.cameras.main.width, this.cameras.main.height, TIME_CONFIG.nightColor)
@@ -149,50 +340,20 @@ export class GameScene extends Phaser.Scene {
     // Listen for resize events
     this.scale.on('resize', this.handleResize, this)
 
-    console.log(`World created: ${WORLD_WIDTH}x${WORLD_HEIGHT} tiles`)
-  }
-
-  /**
-   * Generate terrain using noise
-   */
-  private generateTerrain(): void {
-    this.terrain = []
-
-    for (let gridY = 0; gridY < WORLD_HEIGHT; gridY++) {
-      this.terrain[gridY] = []
-      for (let gridX = 0; gridX < WORLD_WIDTH; gridX++) {
-        // Get noise value (0-1)
-        const noiseValue = this.noiseGenerator.octaveNoise(
-          gridX * TERRAIN_CONFIG.noiseScale,
-          gridY * TERRAIN_CONFIG.noiseScale,
-          4,
-          0.5
-        )
-
-        // Determine terrain type based on noise
-        let terrainType: TerrainType
-        if (noiseValue < TERRAIN_CONFIG.waterThreshold) {
-          terrainType = TerrainType.WATER
-        } else if (noiseValue > TERRAIN_CONFIG.forestThreshold) {
-          terrainType = TerrainType.FOREST
-        } else {
-          // Meadow - with chance for rocks
-          if (Math.random() < TERRAIN_CONFIG.rocksChance) {
-            terrainType = TerrainType.ROCKS
-          } else {
-            terrainType = TerrainType.MEADOW
-          }
-        }
+    // Start on dry land near the origin and stream in everything visible
+    const spawn = this.findSpawnPoint()
+    const spawnScreen = gridToScreen(spawn.gridX + 0.5, spawn.gridY + 0.5)
+    this.cameras.main.centerOn(spawnScreen.x + this.terrainContainer.x, spawnScreen.y + TILE_HEIGHT + this.terrainContainer.y)
+    this.updateChunkStreaming(Infinity)
+    this.createStartingStorage(spawn.gridX, spawn.gridY)
 
-        this.terrain[gridY][gridX] = terrainType
-      }
-    }
+    console.log(`World created around (${spawn.gridX}, ${spawn.gridY}), seed ${this.worldSeed}`)
   }
 
   /**
-   * Render terrain tiles as isometric diamonds
+   * Create the world layers. Tiles and objects are added per chunk as they stream in.
    */
-  private renderTerrain(): void {
+  private createWorldContainers(): void {
     // Create main container for positioning
     this.terrainContainer = this.add.container(0, 0)
     
@@ -207,181 +368,214 @@ export class GameScene extends Phaser.Scene {
     this.terrainContainer.add(this.groundContainer)
     this.terrainContainer.add(this.objectsContainer)
 
-    // Store tree and rock data to create after container positioning
-    const treeData: Array<{gridX: number, gridY: number, x: number, y: number}> = []
-    const rockData: Array<{gridX: number, gridY: number, x: number, y: number}> = []
-
-    // Draw tiles from top to bottom
-    for (let gridY = 0; gridY < WORLD_HEIGHT; gridY++) {
-      for (let gridX = 0; gridX < WORLD_WIDTH; gridX++) {
-        const terrainType = this.terrain[gridY][gridX]
-        const { x, y } = gridToScreen(gridX, gridY)
-
-        // Create isometric diamond tile
-        const tile = this.add.graphics()
-        tile.fillStyle(TERRAIN_COLORS[terrainType], 1)
-
-        // Draw diamond shape
-        tile.beginPath()
-        tile.moveTo(x, y) // Top point
-        tile.lineTo(x + TILE_WIDTH / 2, y + TILE_HEIGHT / 2) // Right point
-        tile.lineTo(x, y + TILE_HEIGHT) // Bottom point
-        tile.lineTo(x - TILE_WIDTH / 2, y + TILE_HEIGHT / 2) // Left point
-        tile.closePath()
-        tile.fillPath()
-
-        // No depth needed for tiles if added in order to groundContainer
-        this.groundContainer.add(tile)
-        
-        this.tiles.push(tile)
-        this.tileGraphicsMap.set(`${gridX},${gridY}`, tile)
-
-        // Store tree data for later creation
-        if (terrainType === TerrainType.FOREST) {
-          treeData.push({ gridX, gridY, x, y })
-          // Mark tree tiles as occupied
-          this.occupiedTiles.add(`${gridX},${gridY}`)
-        }
+    // Make sure terrain follows camera
+    this.terrainContainer.setScrollFactor(1, 1)
+
+    this.terrainRenderer = new TerrainRenderer(this, this.groundContainer,
+      (gridX: number, gridY: number) => this.chunkManager.getTerrain(gridX, gridY))
+  }
 
-        // Store rock data for later creation
-        if (terrainType === TerrainType.ROCKS) {
-          rockData.push({ gridX, gridY, x, y })
-          // Mark rock tiles as occupied
-          this.occupiedTiles.add(`${gridX},${gridY}`)
+  /**
+   * Find a dry meadow tile close to the world origin to start on
+   */
+  private findSpawnPoint(): { gridX: number, gridY: number } {
+    for (let dist = 0; dist <= SPAWN_SEARCH_RADIUS; dist++) {
+      for (let dx = -dist; dx <= dist; dx++) {
+        const dy = dist - Math.abs(dx)
+        for (const gridY of dy === 0 ? [0] : [dy, -dy]) {
+          if (this.chunkManager.getTerrain(dx, gridY) === TerrainType.MEADOW) {
+            return { gridX: dx, gridY }
+          }
         }
       }
     }
+    return { gridX: 0, gridY: 0 }
+  }
 
-    // Center the world in the camera view
-    const worldCenterX = 0
-    const worldCenterY = WORLD_HEIGHT * TILE_HEIGHT / 2
-    this.terrainContainer.setPosition(
-      this.cameras.main.width / 2 - worldCenterX,
-      100 - worldCenterY
-    )
+  /**
+   * Grid bounds of the area currently visible through the camera
+   */
+  private getViewGridBounds(): GridBounds {
+    // Computed from scroll/zoom rather than camera.worldView, which only updates on render
+    const camera = this.cameras.main
+    const viewWidth = camera.width / camera.zoom
+    const viewHeight = camera.height / camera.zoom
+    const left = camera.scrollX + (camera.width - viewWidth) / 2
+    const top = camera.scrollY + (camera.height - viewHeight) / 2
+    const corners = [
+      [left, top],
+      [left + viewWidth, top],
+      [left, top + viewHeight],
+      [left + viewWidth, top + viewHeight]
+    ].map(([x, y]) => screenToGrid(x - this.terrainContainer.x, y - this.terrainContainer.y - TILE_HEIGHT))
+
+    return {
+      minX: Math.min(...corners.map(c => c.gridX)),
+      minY: Math.min(...corners.map(c => c.gridY)),
+      maxX: Math.max(...corners.map(c => c.gridX)),
+      maxY: Math.max(...corners.map(c => c.gridY))
+    }
+  }
 
-    // Make sure terrain follows camera
-    this.terrainContainer.setScrollFactor(1, 1)
+  /**
+   * Load chunks entering the view and unload distant ones
+   * @param maxLoads Chunk loads allowed this frame
+   */
+  private updateChunkStreaming(maxLoads?: number): void {
+    const changed = this.chunkManager.update(this.getViewGridBounds(), maxLoads)
+
+    // Keep the placement grid covering the loaded area
+    if (changed && this.gridOverlay) {
+      this.drawGridOverlay()
+    }
+  }
+
+  /**
+   * Bake ground and create trees and rocks for a chunk entering the view
+   */
+  private loadChunk(chunk: Chunk): void {
+    const originX = chunk.chunkX * CHUNK_SIZE
+    const originY = chunk.chunkY * CHUNK_SIZE
+
+    this.terrainRenderer.addChunk(chunk)
+
+    for (let localY = 0; localY < CHUNK_SIZE; localY++) {
+      for (let localX = 0; localX < CHUNK_SIZE; localX++) {
+        const gridX = originX + localX
+        const gridY = originY + localY
+        this.createTileObject(gridX, gridY, chunk.terrain[localY * CHUNK_SIZE + localX])
+      }
+    }
+  }
+
+  /**
+   * Destroy graphics of a chunk leaving the view (its terrain data is kept)
+   */
+  private unloadChunk(chunk: Chunk): void {
+    const originX = chunk.chunkX * CHUNK_SIZE
+    const originY = chunk.chunkY * CHUNK_SIZE
+
+    this.terrainRenderer.removeChunk(chunk)
+
+    for (let localY = 0; localY < CHUNK_SIZE; localY++) {
+      for (let localX = 0; localX < CHUNK_SIZE; localX++) {
+        this.destroyTileObject(`${originX + localX},${originY + localY}`)
+      }
+    }
+  }
+
+  /**
+   * Change a tile's terrain and redraw its chunk if it is on screen
+   */
+  private setTerrain(gridX: number, gridY: number, type: TerrainType): void {
+    const previous = this.chunkManager.getTerrain(gridX, gridY)
+    this.chunkManager.setTerrain(gridX, gridY, type)
+    this.spatialIndex.onTerrainChange(gridX, gridY, type)
+    this.pathfinder.invalidate()
+    if (isRoadTerrain(previous) || isRoadTerrain(type)) {
+      // Neighbouring road pieces join up with (or let go of) this tile
+      this.terrainRenderer.markRegionDirty(gridX - 1, gridY - 1, gridX + 1, gridY + 1)
+    } else {
+      this.terrainRenderer.markTileDirty(gridX, gridY)
+    }
 
-    // Create trees using helper method
-    console.log(`Creating ${treeData.length} trees`)
-    for (const data of treeData) {
-      this.createTerrainObject(ASSETS.TERRAIN.TREE, data, this.treeMap, this.trees)
+    // Swap the standing sprite (a sapling grew, a tree was cut)
+    if (TERRAIN_RULES[previous].object !== TERRAIN_RULES[type].object ||
+      TERRAIN_RULES[previous].objectScale !== TERRAIN_RULES[type].objectScale ||
+      TERRAIN_RULES[previous].objectTint !== TERRAIN_RULES[type].objectTint) {
+      this.destroyTileObject(`${gridX},${gridY}`)
+      if (this.chunkManager.isTileLoaded(gridX, gridY)) this.createTileObject(gridX, gridY, type)
     }
+  }
 
-    // Create rocks using helper method
-    console.log(`Creating ${rockData.length} rocks`)
-    for (const data of rockData) {
-      this.createTerrainObject(ASSETS.TERRAIN.ROCKS, data, this.rockMap, this.rocks)
+  /**
+   * Create the sprite standing on a tile (tree, sapling, rocks), if any
+   */
+  private createTileObject(gridX: number, gridY: number, terrainType: TerrainType): void {
+    const rule = TERRAIN_RULES[terrainType]
+    if (!rule.object) return
+
+    const { x, y } = gridToScreen(gridX, gridY)
+    const targetMap = rule.object === 'rocks' ? this.rockMap : this.treeMap
+    const object = this.createTerrainObject(rule.object, { gridX, gridY, x, y }, targetMap, rule.objectScale)
+    if (rule.objectTint !== undefined) {
+      object.setTint(rule.objectTint)
     }
+  }
 
-    console.log(`Total terrain tiles: ${WORLD_WIDTH * WORLD_HEIGHT}`)
-    console.log(`Trees created: ${this.trees.length}, Rocks created: ${this.rocks.length}`)
+  private destroyTileObject(key: string): void {
+    this.treeMap.get(key)?.destroy()
+    this.treeMap.delete(key)
+    this.rockMap.get(key)?.destroy()
+    this.rockMap.delete(key)
   }
 
   /**
-   * Create a terrain object (tree or rock) at given position
-   * @param type - Type of terrain object ('tree' or 'rocks')
+   * Create a terrain object (tree, sapling or rock) at given position
+   * @param kind - Kind of terrain object, picks the sprite and base scale
    * @param data - Position data for the object
    * @param targetMap - Map to store the created object
-   * @param targetArray - Array to store the created object
+   * @param scaleMultiplier - Per-terrain scale (e.g. taller spruces)
    */
   private createTerrainObject(
-    type: string,
+    kind: TerrainObjectType,
     data: TerrainObjectData,
     targetMap: Map<string, Phaser.GameObjects.Image>,
-    targetArray: Phaser.GameObjects.Image[]
-  ): void {
+    scaleMultiplier: number = 1.0
+  ): Phaser.GameObjects.Image {
     // Add to objects container, so use local coordinates (x, y) not world coordinates
-    const object = this.add.image(data.x, data.y + TILE_HEIGHT, type)
+    const object = this.add.image(data.x, data.y + TILE_HEIGHT, TERRAIN_OBJECT_TEXTURES[kind])
     object.setOrigin(0.5, 1)
-    
-    // Determine scale based on type
-    let scaleFactor = 1.0
-    if (type === ASSETS.TERRAIN.TREE) scaleFactor = TERRAIN_OBJECT_SCALES.tree
-    else if (type === ASSETS.TERRAIN.ROCKS) scaleFactor = TERRAIN_OBJECT_SCALES.rocks
 
-    const scale = (TILE_WIDTH / object.width) * scaleFactor
+    const scale = (TILE_WIDTH / object.width) * TERRAIN_OBJECT_SCALES[kind] * scaleMultiplier
     object.setScale(scale)
 
     // Depth based on Y-position for visual sorting
     object.setDepth(object.y)
     
     this.objectsContainer.add(object)
-    targetArray.push(object)
     targetMap.set(`${data.gridX},${data.gridY}`, object)
+    return object
   }
 
   /**
    * Enter building placement mode
+   * @param moving Standing building to put down elsewhere instead of a new one
    */
-  private enterPlacementMode(buildingType: BuildingType): void {
-    if (this.placementMode) return
+  private enterPlacementMode(buildingType: PlacementType, moving: Building | null = null): void {
+    if (this.placementMode || this.toolMode) return
+    if (!this.resourceManager.canAfford(this.getPlacementCost(buildingType, moving))) return
 
     // Close any existing confirmation modal
     this.uiManager.hideConfirmation()
 
     this.placementMode = true
     this.placementBuildingType = buildingType
-    this.justEnteredPlacementMode = true
+    this.movingBuilding = moving
+    // A menu button's own click is still to come; a move starts from a map click already handled
+    this.justEnteredPlacementMode = moving === null
+    moving?.sprite.setAlpha(UI_CONFIG.alphas.ghostBuilding)
     console.log(`Placement mode activated: ${buildingType}`)
 
-    // Determine asset key
-    let textureKey: string
+    // Create ghost sprite, scaled like the real thing
     if (buildingType === 'villager') {
-        textureKey = ASSETS.VILLAGERS.WALK_1
-    } else if (buildingType === 'house') {
-        textureKey = ASSETS.BUILDINGS.HOUSE
+      this.ghostBuilding = this.add.image(0, 0, ASSETS.VILLAGERS.WALK_1)
+      this.ghostBuilding.setScale((TILE_WIDTH / this.ghostBuilding.width) * VILLAGER_SCALE_FACTOR)
+      this.ghostBuilding.setOrigin(0.5, 1)
     } else {
-        textureKey = ASSETS.BUILDINGS.TEEPEE
+      this.ghostBuilding = this.createBuildingSprite(buildingType, 0, 0)
     }
-
-    // Create ghost building sprite
-    this.ghostBuilding = this.add.image(0, 0, textureKey)
     this.ghostBuilding.setAlpha(0.6)
     
     // Add to objects container so it sorts correctly with trees/rocks while moving
     this.objectsContainer.add(this.ghostBuilding)
 
-    // Scale based on building type
-    if (buildingType === 'house') {
-      const houseScale = ((TILE_WIDTH * 2) / this.ghostBuilding.width) * 1.5
-      this.ghostBuilding.setScale(houseScale)
-    } else if (buildingType === 'teepee') {
-      const teepeeScale = (TILE_WIDTH / this.ghostBuilding.width) * 0.8
-      this.ghostBuilding.setScale(teepeeScale)
-    } else {
-        // Villager scale
-        const villagerScale = (TILE_WIDTH / this.ghostBuilding.width) * VILLAGER_SCALE_FACTOR
-        this.ghostBuilding.setScale(villagerScale)
-    }
-    this.ghostBuilding.setOrigin(0.5, 1)
-
     // Create grid overlay (only for buildings, optional for villagers)
     if (!this.gridOverlay) {
         this.gridOverlay = this.add.graphics()
-        this.gridOverlay.lineStyle(1, 0xffffff, 0.2)
-
-        // Draw isometric grid
-        for (let gridY = 0; gridY <= WORLD_HEIGHT; gridY++) {
-        for (let gridX = 0; gridX <= WORLD_WIDTH; gridX++) {
-            const { x, y } = gridToScreen(gridX, gridY)
-
-            // Draw vertical lines of the grid
-            if (gridX < WORLD_WIDTH) {
-            const nextRight = gridToScreen(gridX + 1, gridY)
-            this.gridOverlay.lineBetween(x, y, nextRight.x, nextRight.y)
-            }
-
-            // Draw horizontal lines of the grid
-            if (gridY < WORLD_HEIGHT) {
-            const nextDown = gridToScreen(gridX, gridY + 1)
-            this.gridOverlay.lineBetween(x, y, nextDown.x, nextDown.y)
-            }
-        }
-        }
         this.gridOverlay.setDepth(999999) // Always on top of everything
         this.terrainContainer.add(this.gridOverlay)
+        this.drawGridOverlay()
     }
 
     // Add placement click handler
@@ -414,29 +608,49 @@ export class GameScene extends Phaser.Scene {
       // Convert local coordinate to grid
       const { gridX, gridY } = screenToGrid(localX, localY)
 
-      // Check validity
-      const size = this.placementBuildingType === 'house' ? 2 : 1
-      // Villagers are 1x1 for placement check logic
-      if (this.isValidPlacement(gridX, gridY, size)) {
-        
-        if (this.placementBuildingType === 'villager') {
-            // Direct villager placement
-            this.spawnVillager(gridX, gridY, 'villager') // Use 'villager' type to trigger home-finding logic
-            this.exitPlacementMode()
-        } else {
-            // Building placement
-            if (this.placementBuildingType === 'house') {
-                this.placeHouse(gridX, gridY)
-            } else {
-                this.placeTeepee(gridX, gridY)
-            }
-        }
+      if (this.placementBuildingType === 'villager') {
+        // Direct villager placement (1x1 for the placement check)
+        if (!this.isValidPlacement(gridX, gridY, 1)) return
+        if (!this.storageManager.withdraw(getMenuEntry('villager').cost)) return
+        this.spawnVillager(gridX, gridY, null) // Homeless: looks for an empty building
+        this.exitPlacementMode()
+      } else if (this.movingBuilding) {
+        this.moveBuilding(this.movingBuilding, gridX, gridY)
+      } else {
+        this.placeBuilding(this.placementBuildingType, gridX, gridY)
       }
     }
 
     this.input.on('pointerup', this.placementHandler)
   }
 
+  /**
+   * Draw the placement grid over all loaded chunks
+   */
+  private drawGridOverlay(): void {
+    if (!this.gridOverlay) return
+
+    this.gridOverlay.clear()
+    this.gridOverlay.lineStyle(1, 0xffffff, 0.2)
+
+    const bounds = this.chunkManager.getLoadedBounds()
+    if (!bounds) return
+
+    // Lines along the X axis (constant gridY)
+    for (let gridY = bounds.minY; gridY <= bounds.maxY + 1; gridY++) {
+      const start = gridToScreen(bounds.minX, gridY)
+      const end = gridToScreen(bounds.maxX + 1, gridY)
+      this.gridOverlay.lineBetween(start.x, start.y, end.x, end.y)
+    }
+
+    // Lines along the Y axis (constant gridX)
+    for (let gridX = bounds.minX; gridX <= bounds.maxX + 1; gridX++) {
+      const start = gridToScreen(gridX, bounds.minY)
+      const end = gridToScreen(gridX, bounds.maxY + 1)
+      this.gridOverlay.lineBetween(start.x, start.y, end.x, end.y)
+    }
+  }
+
   /**
    * Exit building placement mode
    */
@@ -444,6 +658,10 @@ export class GameScene extends Phaser.Scene {
     this.placementMode = false
     this.placementBuildingType = null
 
+    // A building that stayed put is shown normally again
+    if (this.movingBuilding?.sprite.active) this.movingBuilding.sprite.setAlpha(1)
+    this.movingBuilding = null
+
     if (this.ghostBuilding) {
       this.ghostBuilding.destroy()
       this.ghostBuilding = null
@@ -465,525 +683,1279 @@ export class GameScene extends Phaser.Scene {
   }
 
   /**
-   * Check if area is valid for building placement
-   * @param size - 1 for 1x1 (teepee), 2 for 2x2 (house)
+   * What placing costs: the menu price, or for a move what salvage does not cover
    */
-  private isValidPlacement(gridX: number, gridY: number, size: number = 2): boolean {
-    // Check all tiles in size x size grid
-    for (let dy = 0; dy < size; dy++) {
-      for (let dx = 0; dx < size; dx++) {
-        const checkX = gridX + dx
-        const checkY = gridY + dy
-
-        // Check bounds
-        if (checkX < 0 || checkX >= WORLD_WIDTH || checkY < 0 || checkY >= WORLD_HEIGHT) {
-          return false
-        }
-
-        // Check water
-        if (this.terrain[checkY][checkX] === TerrainType.WATER) {
-          return false
-        }
-
-        // Check occupied (trees, buildings)
-        // Villagers can walk on occupied tiles, but for now let's restrict spawning on top of trees/buildings
-        if (this.occupiedTiles.has(`${checkX},${checkY}`)) {
-          return false
-        }
-      }
-    }
-
-    return true
+  private getPlacementCost(type: PlacementType, moving: Building | null): ResourceCost {
+    return moving ? this.getMoveCharge(moving) : getMenuEntry(type).cost
   }
 
   /**
-   * Place house at grid position
+   * Enter a tool mode: the next click on a building demolishes or picks it up,
+   * or dragging paints roads until the tool is put away
    */
-  private placeHouse(gridX: number, gridY: number): void {
-    if (!this.isValidPlacement(gridX, gridY)) {
+  private enterToolMode(tool: ToolType): void {
+    if (this.placementMode || this.toolMode) return
+
+    this.uiManager.hideConfirmation()
+    this.toolMode = tool
+    console.log(`Tool mode activated: ${tool}`)
+
+    if (tool === 'road') {
+      this.startRoadTool()
       return
     }
+    this.justEnteredPlacementMode = true // Skip the button's own click, as placement does
 
-    // Calculate center position of 2x2 area
-    const centerX = gridX + 1.0  // Center of 2x2 area
-    const centerY = gridY + 1.0
-    const { x, y } = gridToScreen(centerX, centerY)
+    this.toolHandler = (pointer: Phaser.Input.Pointer) => {
+      if (this.inputManager.isDragMoved || !this.toolMode) return
+      if (this.justEnteredPlacementMode) {
+        this.justEnteredPlacementMode = false
+        return
+      }
 
-    // Create house sprite inside container
-    const house = this.add.image(x, y + TILE_HEIGHT, ASSETS.BUILDINGS.HOUSE)
-    const houseScale = ((TILE_WIDTH * 2) / house.width) * 1.5  // Same scale as ghost house
-    house.setScale(houseScale)
-    house.setOrigin(0.5, 1)
-    
-    // Grid-based depth. House is 2x2.
-    // house.setDepth((gridX + 1) + (gridY + 1) + 1)
-    // Switching to Y-based depth for correct visual overlap
-    house.setDepth(house.y)
-    
-    // Mark as unoccupied initially
-    // house.setTint(0x888888) // Removed tint
-    
-    this.objectsContainer.add(house)
-    this.houses.push(house)
-    
-    // Create Window Lights (Two small glows)
-    const lightLeft = this.add.image(house.x - 15, house.y - 25, ASSETS.EFFECTS.LIGHT)
-    lightLeft.setScale(0.8)
-    lightLeft.setAlpha(0)
-    lightLeft.setBlendMode(Phaser.BlendModes.ADD)
-    lightLeft.setDepth(house.depth + 0.1)
-    
-    const lightRight = this.add.image(house.x + 15, house.y - 15, ASSETS.EFFECTS.LIGHT)
-    lightRight.setScale(0.8)
-    lightRight.setAlpha(0)
-    lightRight.setBlendMode(Phaser.BlendModes.ADD)
-    lightRight.setDepth(house.depth + 0.1)
-
-    this.objectsContainer.add(lightLeft)
-    this.objectsContainer.add(lightRight)
-
-    // Create empty indicator
-    // Position slightly above the house
-    const indicatorY = house.y - (TILE_HEIGHT * 1.5) 
-    const emptyIndicator = this.uiManager.createEmptyBuildingIndicator(house.x, indicatorY, house.depth + 1)
-    this.objectsContainer.add(emptyIndicator)
-    
-    // Register building data
-    // House is 2x2, so register for all 4 tiles
-    const buildingData = { 
-        type: 'house' as BuildingType, 
-        occupied: false, 
-        sprite: house,
-        emptyIndicator: emptyIndicator, // Store reference
-        gridX: gridX,
-        gridY: gridY,
-        lights: [lightLeft, lightRight]
-    }
-    
-    for (let dy = 0; dy < 2; dy++) {
-      for (let dx = 0; dx < 2; dx++) {
-        this.buildingsMap.set(`${gridX + dx},${gridY + dy}`, buildingData)
+      const { gridX, gridY } = this.getPointerTile(pointer)
+      const building = this.buildingsMap.get(`${gridX},${gridY}`)
+      if (!building) {
+        // Roads are taken up without asking, they cost little to lay again
+        if (this.toolMode === 'demolish' && this.roadManager.removeRoad(gridX, gridY)) this.exitToolMode()
+        return
       }
-    }
 
-    // Mark all 4 tiles as occupied
-    for (let dy = 0; dy < 2; dy++) {
-      for (let dx = 0; dx < 2; dx++) {
-        this.occupiedTiles.add(`${gridX + dx},${gridY + dy}`)
+      const selected = this.toolMode
+      this.exitToolMode()
+      if (selected === 'demolish') {
+        this.confirmDemolish(building)
+      } else if (building.constructed) {
+        this.enterPlacementMode(building.type, building)
+      } else {
+        console.log('Construction sites cannot be moved, cancel them instead')
       }
     }
 
-    console.log(`House placed at (${gridX}, ${gridY})`)
+    this.input.on('pointerup', this.toolHandler)
+  }
 
-    // Exit placement mode immediately
-    this.exitPlacementMode()
+  private exitToolMode(): void {
+    this.toolMode = null
+    this.setHoveredBuilding(null)
 
-    // Show Confirmation Modal for Villager Spawn
-    // We need world coordinates for the modal to appear near the house
-    // Convert container coords (x,y) to world coords
-    const worldX = x + this.terrainContainer.x
-    const worldY = y + this.terrainContainer.y - 50 // Above house
-
-    this.uiManager.showConfirmation(worldX, worldY, 
-        () => {
-            // Confirmed
-            this.spawnVillager(gridX, gridY, 'house')
-        },
-        () => {
-            // Cancelled
-            console.log('Villager spawn skipped')
-        }
-    )
+    if (this.toolHandler) {
+      this.input.off('pointerup', this.toolHandler)
+      this.toolHandler = null
+    }
+    if (this.roadHandlers) {
+      for (const [event, handler] of Object.entries(this.roadHandlers)) {
+        this.input.off(event, handler)
+      }
+      this.roadHandlers = null
+      this.roadStroke = null
+      this.inputManager.setCameraDrag(true)
+    }
+
+    console.log('Tool mode deactivated')
   }
 
   /**
-   * Place teepee at grid position (1x1)
+   * Road tool: holding the button down paints road along the pointer's way.
+   * The camera does not follow drags meanwhile (arrow keys still scroll).
    */
-  private placeTeepee(gridX: number, gridY: number): void {
-    if (!this.isValidPlacement(gridX, gridY, 1)) {
-      return
+  private startRoadTool(): void {
+    this.inputManager.setCameraDrag(false)
+
+    this.roadHandlers = {
+      pointerdown: (pointer: Phaser.Input.Pointer) => {
+        if (!pointer.leftButtonDown() || pointer.y >= this.cameras.main.height - UI_CONFIG.menuBarHeight) return
+        this.roadStroke = null
+        this.paintRoad(this.getPointerTile(pointer))
+      },
+      pointermove: (pointer: Phaser.Input.Pointer) => {
+        if (this.roadStroke && pointer.isDown) this.paintRoad(this.getPointerTile(pointer))
+      },
+      pointerup: () => {
+        this.roadStroke = null
+      }
+    }
+    for (const [event, handler] of Object.entries(this.roadHandlers)) {
+      this.input.on(event, handler)
     }
+  }
 
-    // Calculate center position of 1x1 tile
-    const centerX = gridX + 0.5
-    const centerY = gridY + 0.5
-    const { x, y } = gridToScreen(centerX, centerY)
+  /**
+   * Pave every tile from the last painted one up to this one, while stone lasts
+   */
+  private paintRoad(tile: GridPoint): void {
+    const from = this.roadStroke ?? tile
+    if (this.roadStroke && from.gridX === tile.gridX && from.gridY === tile.gridY) return
+    this.roadStroke = tile
+
+    for (const { gridX, gridY } of getStrokeTiles(from, tile)) {
+      if (!this.roadManager.canPave(gridX, gridY)) continue
+      if (!this.storageManager.withdraw(ROAD_CONFIG.cost)) {
+        console.log('Not enough stone for the road')
+        return
+      }
+      this.roadManager.pave(gridX, gridY)
+    }
+  }
 
-    // Create teepee sprite inside container
-    const teepee = this.add.image(x, y + TILE_HEIGHT, ASSETS.BUILDINGS.TEEPEE)
-    const teepeeScale = (TILE_WIDTH / teepee.width) * 0.8  // Same scale as ghost teepee
-    teepee.setScale(teepeeScale)
-    teepee.setOrigin(0.5, 1)
-    
-    // Grid-based depth
-    // teepee.setDepth(gridX + gridY + 1)
-    // Switching to Y-based depth
-    teepee.setDepth(teepee.y)
-    
-    // Mark as unoccupied initially
-    // teepee.setTint(0x888888) // Removed tint
-    
-    this.objectsContainer.add(teepee)
-    this.teepees.push(teepee)
-    
-    // Create Light (Fire glow)
-    // Lower and smaller than before
-    const light = this.add.image(teepee.x, teepee.y - 5, ASSETS.EFFECTS.LIGHT)
-    light.setScale(1.0)
-    light.setAlpha(0)
-    light.setBlendMode(Phaser.BlendModes.ADD)
-    light.setDepth(teepee.depth + 0.1)
-    this.objectsContainer.add(light)
-
-    // Create empty indicator
-    const indicatorY = teepee.y - TILE_HEIGHT
-    const emptyIndicator = this.uiManager.createEmptyBuildingIndicator(teepee.x, indicatorY, teepee.depth + 1)
-    this.objectsContainer.add(emptyIndicator)
-    
-    // Register building data
-    this.buildingsMap.set(`${gridX},${gridY}`, { 
-        type: 'teepee', 
-        occupied: false, 
-        sprite: teepee,
-        emptyIndicator: emptyIndicator,
-        gridX: gridX,
-        gridY: gridY,
-        lights: [light]
-    })
+  /**
+   * Tint the building under the pointer in tool mode
+   */
+  private setHoveredBuilding(building: Building | null): void {
+    if (building === this.hoveredBuilding) return
 
-    // Mark tile as occupied
-    this.occupiedTiles.add(`${gridX},${gridY}`)
+    this.hoveredBuilding?.sprite.clearTint()
+    this.hoveredBuilding = building
+    building?.sprite.setTint(this.toolMode === 'demolish' ? UI_CONFIG.colors.ghostBlocked : UI_CONFIG.colors.ghostValid)
+  }
 
-    console.log(`Teepee placed at (${gridX}, ${gridY})`)
+  /**
+   * Tile under the pointer
+   */
+  private getPointerTile(pointer: Phaser.Input.Pointer): GridPoint {
+    const camera = this.cameras.main
+    return screenToGrid(
+      pointer.x + camera.scrollX - this.terrainContainer.x,
+      pointer.y + camera.scrollY - this.terrainContainer.y
+    )
+  }
 
-    // Exit placement mode
-    this.exitPlacementMode()
+  /**
+   * Check if area is valid for building placement
+   * @param size - Footprint tiles per side
+   * @param allowed - Terrain the building is limited to, if any
+   * @param ignore - Building being moved, whose own tiles don't count as taken
+   */
+  private isValidPlacement(gridX: number, gridY: number, size: number, allowed?: TerrainType[], ignore?: Building): boolean {
+    // Check all tiles in size x size grid
+    for (let dy = 0; dy < size; dy++) {
+      for (let dx = 0; dx < size; dx++) {
+        const checkX = gridX + dx
+        const checkY = gridY + dy
 
-    // Show Confirmation Modal for Villager Spawn
-    const worldX = x + this.terrainContainer.x
-    const worldY = y + this.terrainContainer.y - 30
+        // Check terrain rules (water, swamp, trees, rocks, ...)
+        const terrain = this.chunkManager.getTerrain(checkX, checkY)
+        if (!isBuildableTerrain(terrain) || (allowed && !allowed.includes(terrain))) {
+          return false
+        }
 
-    this.uiManager.showConfirmation(worldX, worldY, 
-        () => {
-            this.spawnVillager(gridX, gridY, 'teepee')
-        },
-        () => {
-            console.log('Villager spawn skipped')
+        // Check occupied (buildings)
+        const key = `${checkX},${checkY}`
+        if (this.occupiedTiles.has(key) && (!ignore || this.buildingsMap.get(key) !== ignore)) {
+          return false
         }
-    )
+      }
+    }
+
+    return true
   }
 
   /**
-   * Spawn a villager at a building
+   * Place a building from the registry as a construction site
    */
-  private spawnVillager(gridX: number, gridY: number, type: BuildingType): void {
-    const spawnX = gridX + 0.5
-    const spawnY = gridY + 0.5
-    const { x, y } = gridToScreen(spawnX, spawnY)
+  private placeBuilding(type: BuildingType, gridX: number, gridY: number): void {
+    const definition = BUILDING_DEFINITIONS[type]
+    if (!this.isValidPlacement(gridX, gridY, definition.size, definition.terrain)) {
+      return
+    }
 
-    // Create villager inside container
-    const villager = this.add.image(x, y + TILE_HEIGHT, ASSETS.VILLAGERS.WALK_1)
-    villager.setOrigin(0.5, 1)
+    // Commit the materials up front; nothing is built if any resource is short
+    const pickups = this.storageManager.withdraw(definition.cost, { gridX, gridY })
+    if (!pickups) {
+      console.log(`Not enough resources for ${definition.label}`)
+      return
+    }
 
-    // Scale villager to be smaller than buildings
-    const villagerScale = (TILE_WIDTH / villager.width) * VILLAGER_SCALE_FACTOR
-    villager.setScale(villagerScale)
+    const building = this.createBuilding(type, gridX, gridY)
+    this.constructionManager.startSite(building, pickups)
+    this.makeSiteCancellable(building)
 
-    // Initial depth based on Y
-    villager.setDepth(villager.y)
-    
-    this.objectsContainer.add(villager)
+    console.log(`${type} placed at (${gridX}, ${gridY})`)
+    this.exitPlacementMode()
 
-    // Targets are in SCREEN coordinates relative to container
-    let targetX = x
-    let targetY = y + TILE_HEIGHT
-    let targetGridX = gridX
-    let targetGridY = gridY
-
-    // Check if spawning at a building and mark it as occupied
-    const buildingKey = `${gridX},${gridY}`
-    const buildingData = this.buildingsMap.get(buildingKey)
-    // We need to cast to any because TypeScript doesn't know about the new 'emptyIndicator' property on the map value yet without updating the Map definition locally, 
-    // but simpler is just to access it. The map definition was actually updated in a previous step implicitly by usage, but let's be safe.
-    if (buildingData && (type === 'house' || type === 'teepee')) {
-        buildingData.occupied = true
-        // buildingData.sprite.clearTint() // No longer using tint
-        
-        // Remove empty indicator
-        if ((buildingData as any).emptyIndicator) {
-            this.uiManager.hideEmptyBuildingIndicator((buildingData as any).emptyIndicator)
-            ;(buildingData as any).emptyIndicator = undefined
-        }
-        
-        console.log(`Building at ${buildingKey} is now occupied`)
-    }
-
-    if (type === 'house') {
-      // Find nearest forest
-      const forest = this.findNearestForest(gridX, gridY)
-      if (forest) {
-        const forestScreen = gridToScreen(forest.gridX + 0.5, forest.gridY + 0.5)
-        targetX = forestScreen.x
-        targetY = forestScreen.y + TILE_HEIGHT
-        targetGridX = forest.gridX
-        targetGridY = forest.gridY
-      }
-    } else {
-      // Teepee villagers wander randomly
-      const randomGridX = gridX + Phaser.Math.Between(-5, 5)
-      const randomGridY = gridY + Phaser.Math.Between(-5, 5)
-      const wanderScreen = gridToScreen(randomGridX, randomGridY)
-      targetX = wanderScreen.x
-      targetY = wanderScreen.y + TILE_HEIGHT
-      targetGridX = randomGridX
-      targetGridY = randomGridY
-    }
+    if (definition.capacity === 0) return
 
-    this.villagers.push({
-      sprite: villager,
-      type,
-      state: 'walking',
-      targetX,
-      targetY,
-      targetGridX,
-      targetGridY,
-      homeX: x,
-      homeY: y + TILE_HEIGHT,
-      speed: VILLAGER_SPEED,
-      animFrame: 0,
-      animTimer: 0,
-      workTimer: 0,
-      hasWood: false
-    })
+    // Offer a settler who builds the home and moves in once it is done
+    const worldX = building.sprite.x + this.terrainContainer.x
+    const worldY = building.sprite.y + this.terrainContainer.y - TILE_HEIGHT * (definition.indicatorOffset + 1)
 
-    console.log(`Villager spawned at (${gridX}, ${gridY}), type: ${type}`)
+    this.uiManager.showConfirmation(worldX, worldY,
+      () => this.spawnVillager(gridX, gridY, null),
+      () => console.log('Villager spawn skipped')
+    )
   }
 
   /**
-   * Find nearest forest tile
+   * The settlers' supplies start out in a finished stockpile where they arrive,
+   * or on the nearest tile with room for it. Without one the supplies are
+   * dropped, so the totals never count goods no store holds.
    */
-  private findNearestForest(fromX: number, fromY: number): { gridX: number, gridY: number } | null {
-    let nearest: { gridX: number, gridY: number, dist: number } | null = null
+  private createStartingStorage(spawnX: number, spawnY: number): void {
+    const definition = BUILDING_DEFINITIONS[STARTING_STORAGE]
+    const tile = this.findStartingStorageTile(spawnX, spawnY, definition.size, definition.terrain)
+    if (!tile) {
+      console.warn('No room for the starting storage, supplies lost')
+      this.resourceManager.spend({ ...this.resourceManager.getAll() })
+      return
+    }
+
+    const building = this.createBuilding(STARTING_STORAGE, tile.gridX, tile.gridY)
+    building.constructed = true
+    this.storageManager.register(building, definition.storage ?? {}, this.resourceManager.getAll())
+  }
 
-    for (let gridY = 0; gridY < WORLD_HEIGHT; gridY++) {
-      for (let gridX = 0; gridX < WORLD_WIDTH; gridX++) {
-        if (this.terrain[gridY][gridX] === TerrainType.FOREST) {
-          const dist = Math.abs(gridX - fromX) + Math.abs(gridY - fromY)
-          if (!nearest || dist < nearest.dist) {
-            nearest = { gridX, gridY, dist }
+  private findStartingStorageTile(spawnX: number, spawnY: number, size: number, allowed?: TerrainType[]): GridPoint | null {
+    for (let dist = 0; dist <= SPAWN_SEARCH_RADIUS; dist++) {
+      for (let dx = -dist; dx <= dist; dx++) {
+        const dy = dist - Math.abs(dx)
+        for (const offsetY of dy === 0 ? [0] : [dy, -dy]) {
+          if (this.isValidPlacement(spawnX + dx, spawnY + offsetY, size, allowed)) {
+            return { gridX: spawnX + dx, gridY: spawnY + offsetY }
           }
         }
       }
     }
-
-    return nearest ? { gridX: nearest.gridX, gridY: nearest.gridY } : null
+    return null
   }
 
   /**
-   * Update villager movement and animation
+   * Put a building on the map: sprite, lights and its footprint tiles
    */
-  private updateVillagers(delta: number): void {
-    for (const villager of this.villagers) {
-      // Update animation timer (only when walking)
-      if (villager.state === 'walking') {
-        villager.animTimer += delta
-        if (villager.animTimer > VILLAGER_ANIM_INTERVAL) {
-          villager.animTimer = 0
-          villager.animFrame = (villager.animFrame + 1) % 2
-          const texture = villager.animFrame === 0 ? ASSETS.VILLAGERS.WALK_1 : ASSETS.VILLAGERS.WALK_2
-          villager.sprite.setTexture(texture)
-        }
-      }
-
-      // Handle working state (cutting trees)
-      if (villager.state === 'working') {
-        villager.workTimer += delta
-        if (villager.workTimer > TREE_WORK_DURATION) {
-          villager.workTimer = 0
-          villager.state = 'walking'
-          villager.hasWood = true
-
-          // Remove the tree sprite
-          const treeKey = `${villager.targetGridX},${villager.targetGridY}`
-          const tree = this.treeMap.get(treeKey)
-          if (tree) {
-            tree.destroy()
-            this.treeMap.delete(treeKey)
-            console.log(`Tree at (${villager.targetGridX}, ${villager.targetGridY}) cut down`)
-          }
-
-          // Add to cut trees list for meadow conversion after 5 seconds
-          this.cutTrees.push({
-            gridX: villager.targetGridX,
-            gridY: villager.targetGridY,
-            timer: 0
-          })
-
-          // Go home
-          villager.targetX = villager.homeX
-          villager.targetY = villager.homeY
-          console.log('Villager finished cutting wood, going home')
-        }
-        continue // Skip movement while working
-      }
+  private createBuilding(type: BuildingType, gridX: number, gridY: number): Building {
+    const definition = BUILDING_DEFINITIONS[type]
+    const { x, y } = this.getFootprintBase(gridX, gridY, definition.size)
+    const sprite = this.createBuildingSprite(type, x, y)
+    this.objectsContainer.add(sprite)
+
+    // Window and fire glows, lit at night while someone is home
+    const lights = definition.lights.map(anchor => {
+      const light = this.add.image(sprite.x + anchor.x, sprite.y + anchor.y, ASSETS.EFFECTS.LIGHT)
+      light.setScale(anchor.scale)
+      light.setAlpha(0)
+      light.setBlendMode(Phaser.BlendModes.ADD)
+      light.setDepth(sprite.depth + 0.1)
+      this.objectsContainer.add(light)
+      return light
+    })
 
-      // Update position
-      if (villager.state === 'walking') {
-        const dx = villager.targetX - villager.sprite.x
-        const dy = villager.targetY - villager.sprite.y
-        const distance = Math.sqrt(dx * dx + dy * dy)
-
-        if (distance < 5) {
-          // Reached target
-          if (villager.type === 'house') {
-            // Check if at home or at forest
-            const isAtHome = Math.abs(villager.sprite.x - villager.homeX) < 10
-
-            if (isAtHome) {
-              // Arrived home
-              if (villager.hasWood) {
-                // Deliver wood
-                this.woodCount += WOOD_PER_DELIVERY
-                villager.hasWood = false
-                // Update UI via Manager
-                this.uiManager.updateWoodCount(this.woodCount)
-                console.log(`Wood delivered! Total: ${this.woodCount}`)
-              }
-
-              // Go to forest (use world coordinates)
-              // Coordinates are relative to container now
-              const { gridX, gridY } = screenToGrid(villager.sprite.x, villager.sprite.y - TILE_HEIGHT)
-              const forest = this.findNearestForest(gridX, gridY)
-              if (forest) {
-                const forestScreen = gridToScreen(forest.gridX + 0.5, forest.gridY + 0.5)
-                villager.targetX = forestScreen.x
-                villager.targetY = forestScreen.y + TILE_HEIGHT
-                villager.targetGridX = forest.gridX
-                villager.targetGridY = forest.gridY
-              }
-            } else {
-              // Arrived at forest - start working
-              villager.state = 'working'
-              villager.workTimer = 0
-              villager.sprite.setTexture(ASSETS.VILLAGERS.WALK_1) // Stop on frame 1
-              console.log('Villager started cutting wood')
-            }
-          } else {
-            // Teepee villagers wander randomly
-            const { gridX, gridY } = screenToGrid(villager.sprite.x, villager.sprite.y - TILE_HEIGHT)
-            const randomGridX = gridX + Phaser.Math.Between(-10, 10)
-            const randomGridY = gridY + Phaser.Math.Between(-10, 10)
-            const wanderScreen = gridToScreen(randomGridX, randomGridY)
-            villager.targetX = wanderScreen.x
-            villager.targetY = wanderScreen.y + TILE_HEIGHT
-          }
-        } else {
-          // Move towards target
-          villager.sprite.x += (dx / distance) * villager.speed
-          villager.sprite.y += (dy / distance) * villager.speed
+    const building: Building = {
+      type,
+      residents: [],
+      constructed: false,
+      sprite,
+      gridX,
+      gridY,
+      lights
+    }
 
-          // Update depth to Y position
-          villager.sprite.setDepth(villager.sprite.y)
-        }
-      }
-      
-      // New Logic: Check for nearby empty buildings to move in
-      if (villager.state === 'walking' || villager.state === 'idle') {
-        // If just wandering (not working), try to find a home
-        if (villager.type === 'villager' && !villager.assignedBuilding) { // Assuming manual villagers have type 'villager'
-             const emptyHome = this.findEmptyBuilding(villager.targetGridX, villager.targetGridY)
-             if (emptyHome) {
-                 // Set target to home
-                 const { x, y } = gridToScreen(emptyHome.gridX + 0.5, emptyHome.gridY + 0.5)
-                 // Target is local to container (because villager is in container)
-                 // Adjust Y by TILE_HEIGHT so they walk to the "feet" position of the tile
-                 villager.targetX = x
-                 villager.targetY = y + TILE_HEIGHT
-                 
-                 // Don't change state, just let them walk there. 'checkNearbyBuildings' will handle the entry.
-             }
-        }
-        this.checkNearbyBuildings(villager)
+    // Register every footprint tile
+    for (let dy = 0; dy < definition.size; dy++) {
+      for (let dx = 0; dx < definition.size; dx++) {
+        this.buildingsMap.set(`${gridX + dx},${gridY + dy}`, building)
+        this.occupiedTiles.add(`${gridX + dx},${gridY + dy}`)
       }
     }
+    this.spatialIndex.addBuilding(building, definition.size)
+    this.pathfinder.invalidate()
+    return building
   }
 
   /**
-   * Find nearest empty building
+   * Building sprite standing on its footprint, shared by the ghost and the real thing
    */
-  private findEmptyBuilding(gridX: number, gridY: number): { gridX: number, gridY: number } | null {
-      let nearest: { gridX: number, gridY: number, dist: number } | null = null
-      
-      // Iterate through all buildings in map
-      // Note: buildingsMap contains entries for ALL tiles of a building. 
-      // We should be careful not to over-process, but for prototype this is fine.
-      for (const [key, building] of this.buildingsMap.entries()) {
-          if (!building.occupied && (building.type === 'house' || building.type === 'teepee')) {
-              const [bx, by] = key.split(',').map(Number)
-              const dist = Math.abs(bx - gridX) + Math.abs(by - gridY)
-              
-              if (!nearest || dist < nearest.dist) {
-                  nearest = { gridX: bx, gridY: by, dist }
-              }
-          }
+  private createBuildingSprite(type: BuildingType, x: number, y: number): Phaser.GameObjects.Image {
+    const definition = BUILDING_DEFINITIONS[type]
+    const sprite = this.add.image(x, y, definition.texture)
+    sprite.setScale((TILE_WIDTH * definition.width) / sprite.width)
+    sprite.setOrigin(0.5, 1)
+    sprite.setDepth(sprite.y) // Y-based depth for correct visual overlap
+    return sprite
+  }
+
+  /**
+   * Where a footprint's sprite stands (bottom centre, container coordinates)
+   */
+  private getFootprintBase(gridX: number, gridY: number, size: number): { x: number, y: number } {
+    const { x, y } = gridToScreen(gridX + size / 2, gridY + size / 2)
+    return { x, y: y + TILE_HEIGHT }
+  }
+
+  private isHome(building: Building): boolean {
+    return BUILDING_DEFINITIONS[building.type].capacity > 0
+  }
+
+  /**
+   * Clicking a construction site offers to cancel it
+   */
+  private makeSiteCancellable(building: Building): void {
+    building.sprite.setInteractive({ useHandCursor: true })
+    building.sprite.on('pointerup', () => {
+      if (this.placementMode || this.toolMode || this.inputManager.isDragMoved) return
+      if (!this.constructionManager.getSite(building)) return
+
+      const worldX = building.sprite.x + this.terrainContainer.x
+      const worldY = building.sprite.y + this.terrainContainer.y - building.sprite.displayHeight
+      this.uiManager.showConfirmation(worldX, worldY,
+        () => this.cancelConstruction(building),
+        () => console.log('Construction continues'),
+        'Zrušit stavbu?'
+      )
+    })
+  }
+
+  /**
+   * Cancel a construction site, refund its materials and clear the ground
+   */
+  private cancelConstruction(building: Building): void {
+    const site = this.constructionManager.getSite(building)
+    if (!site) return
+
+    const refund = this.constructionManager.cancelSite(site)
+    const residents = [...building.residents]
+    this.evictResidents(building)
+    this.removeBuilding(building)
+
+    // A cancelled move only gives back the fee; the salvage stays with the building
+    const origin = this.moveSites.get(building)
+    if (origin) {
+      this.moveSites.delete(building)
+      this.restoreMovedBuilding(building.type, origin, residents)
+      this.storeAllGoods(this.getMoveCharge(building), building)
+      return
+    }
+
+    this.storeAllGoods(refund, building)
+
+    // A cancelled upgrade leaves the previous tier standing, residents and all
+    const previous = this.upgradeSites.get(building)
+    if (previous) {
+      this.upgradeSites.delete(building)
+      const restored = this.createBuilding(previous, building.gridX, building.gridY)
+      restored.constructed = true
+      this.rehome(residents, restored)
+      this.completeBuilding(restored)
+    }
+  }
+
+  /**
+   * Ask before tearing a building down
+   */
+  private confirmDemolish(building: Building): void {
+    const worldX = building.sprite.x + this.terrainContainer.x
+    const worldY = building.sprite.y + this.terrainContainer.y - building.sprite.displayHeight
+    this.uiManager.showConfirmation(worldX, worldY,
+      () => this.demolishBuilding(building),
+      () => console.log('Demolition cancelled'),
+      'Zbourat?'
+    )
+  }
+
+  /**
+   * Tear a building down: residents move out, stored goods go to other
+   * stores and part of the cost comes back. A site is simply cancelled.
+   * A store is left standing while the others have no room for its goods.
+   */
+  private demolishBuilding(building: Building): void {
+    if (this.constructionManager.getSite(building)) {
+      this.cancelConstruction(building)
+      return
+    }
+
+    const contents = this.storageManager.getContents(building)
+    const refund = getCostShare(building.type, REMOVAL_CONFIG.demolishRefund)
+    if (this.storageManager.isStore(building)) {
+      const goods: ResourceCost = { ...contents }
+      for (const [resource, amount] of Object.entries(refund) as [ResourceType, number][]) {
+        goods[resource] = (goods[resource] ?? 0) + amount
       }
-      
+      if (!this.storageManager.fitsElsewhere(building, goods)) {
+        console.log(`No room in other stores, ${building.type} stays standing`)
+        return
+      }
+    }
+
+    this.evictResidents(building)
+    this.removeBuilding(building)
+    this.storeAllGoods(contents, building)
+    this.storeAllGoods(refund, building)
+  }
+
+  /**
+   * Rebuild a standing building elsewhere. Salvaged materials come along
+   * from the old site, the rest is paid from storage, and residents keep it
+   * as their home once it is up again. Cancelling the site puts it back.
+   */
+  private moveBuilding(building: Building, gridX: number, gridY: number): void {
+    const definition = BUILDING_DEFINITIONS[building.type]
+    if (!this.isValidPlacement(gridX, gridY, definition.size, definition.terrain, building)) {
+      return
+    }
+    // Stored goods move out to the other stores while the new site is built
+    if (!this.storageManager.fitsElsewhere(building, this.storageManager.getContents(building))) {
+      console.log(`No room in other stores for what ${definition.label} holds`)
+      return
+    }
+
+    const pickups = this.storageManager.withdraw(this.getMoveCharge(building), { gridX, gridY })
+    if (!pickups) {
+      console.log(`Not enough resources to move ${definition.label}`)
+      return
+    }
+
+    const residents = building.residents
+    const contents = this.storageManager.getContents(building)
+    this.removeBuilding(building)
+    this.storeAllGoods(contents, building)
+
+    // No store stands on the old site, so the salvage counts as already on hand
+    const from = { gridX: building.gridX, gridY: building.gridY }
+    const salvage = getCostShare(building.type, REMOVAL_CONFIG.moveSalvage)
+    for (const [resource, amount] of Object.entries(salvage) as [ResourceType, number][]) {
+      pickups.push({ from, load: { resource, amount } })
+    }
+
+    const moved = this.createBuilding(building.type, gridX, gridY)
+    this.constructionManager.startSite(moved, pickups)
+    this.makeSiteCancellable(moved)
+    this.rehome(residents, moved)
+    this.moveSites.set(moved, from)
+
+    console.log(`${building.type} moved from (${from.gridX}, ${from.gridY}) to (${gridX}, ${gridY})`)
+    this.exitPlacementMode()
+  }
+
+  /**
+   * Put a building back where it stood before a cancelled move. If the old
+   * spot has been built over since, the salvage comes back as if demolished.
+   */
+  private restoreMovedBuilding(type: BuildingType, origin: GridPoint, residents: Villager[]): void {
+    const definition = BUILDING_DEFINITIONS[type]
+    if (!this.isValidPlacement(origin.gridX, origin.gridY, definition.size, definition.terrain)) {
+      console.log(`Old site of ${type} at (${origin.gridX}, ${origin.gridY}) is taken`)
+      this.storeAllGoods(getCostShare(type, REMOVAL_CONFIG.demolishRefund), origin)
+      return
+    }
+
+    const restored = this.createBuilding(type, origin.gridX, origin.gridY)
+    restored.constructed = true
+    this.rehome(residents, restored)
+    this.completeBuilding(restored)
+  }
+
+  /**
+   * Part of a building's cost its salvage does not cover
+   */
+  private getMoveCharge(building: Building): ResourceCost {
+    const salvage = getCostShare(building.type, REMOVAL_CONFIG.moveSalvage)
+    const charge: ResourceCost = {}
+    for (const [resource, amount] of Object.entries(BUILDING_DEFINITIONS[building.type].cost) as [ResourceType, number][]) {
+      const rest = amount - (salvage[resource] ?? 0)
+      if (rest > 0) charge[resource] = rest
+    }
+    return charge
+  }
+
+  /**
+   * Clicking a lived-in building offers its next tier
+   */
+  private makeUpgradable(building: Building): void {
+    const upgrade = BUILDING_DEFINITIONS[building.type].upgrade
+    if (!upgrade) return
+
+    building.sprite.setInteractive({ useHandCursor: true })
+    building.sprite.on('pointerup', () => {
+      if (this.placementMode || this.toolMode || this.inputManager.isDragMoved) return
+      if (!building.constructed || building.residents.length === 0) return
+
+      const target = BUILDING_DEFINITIONS[upgrade.to]
+      if (!this.resourceManager.canAfford(upgrade.cost)) {
+        console.log(`Not enough resources to upgrade to ${target.label}`)
+        return
+      }
+      if (!this.isValidPlacement(building.gridX, building.gridY, target.size, target.terrain, building)) {
+        console.log(`No room for ${target.label} at (${building.gridX}, ${building.gridY})`)
+        return
+      }
+
+      const worldX = building.sprite.x + this.terrainContainer.x
+      const worldY = building.sprite.y + this.terrainContainer.y - building.sprite.displayHeight
+      this.uiManager.showConfirmation(worldX, worldY,
+        () => this.upgradeBuilding(building),
+        () => console.log('Upgrade skipped'),
+        `Vylepšit na ${target.label}?`
+      )
+    })
+  }
+
+  /**
+   * Replace a building with its next tier, built in place as a construction
+   * site. Residents keep it as their home and take up the new tier's work
+   * once it is finished.
+   */
+  private upgradeBuilding(building: Building): void {
+    const upgrade = BUILDING_DEFINITIONS[building.type].upgrade
+    if (!upgrade || !building.constructed) return
+
+    const target = BUILDING_DEFINITIONS[upgrade.to]
+    if (!this.isValidPlacement(building.gridX, building.gridY, target.size, target.terrain, building)) return
+
+    const pickups = this.storageManager.withdraw(upgrade.cost, building)
+    if (!pickups) {
+      console.log(`Not enough resources to upgrade to ${target.label}`)
+      return
+    }
+
+    const residents = building.residents
+    this.removeBuilding(building)
+
+    const upgraded = this.createBuilding(upgrade.to, building.gridX, building.gridY)
+    this.upgradeSites.set(upgraded, building.type)
+    this.constructionManager.startSite(upgraded, pickups)
+    this.makeSiteCancellable(upgraded)
+    this.rehome(residents, upgraded)
+
+    console.log(`${building.type} at (${building.gridX}, ${building.gridY}) upgrading to ${upgrade.to}`)
+  }
+
+  /**
+   * Give residents a new home in place of their old one
+   */
+  private rehome(residents: Villager[], home: Building): void {
+    for (const villager of residents) {
+      this.leaveHome(villager)
+      villager.home = home
+    }
+    home.residents = [...residents]
+  }
+
+  /**
+   * Residents lose their home and go looking for another
+   */
+  private evictResidents(building: Building): void {
+    for (const villager of building.residents) {
+      this.leaveHome(villager)
+      villager.home = null
+      console.log(`Villager moved out of ${building.type} at (${building.gridX}, ${building.gridY})`)
+    }
+    building.residents = []
+  }
+
+  /**
+   * Finished construction: the building can now be lived in
+   */
+  private completeBuilding(building: Building): void {
+    building.sprite.removeInteractive()
+    this.upgradeSites.delete(building)
+    this.moveSites.delete(building)
+    if (this.isHome(building) && building.residents.length === 0) this.showEmptyIndicator(building)
+    this.makeUpgradable(building)
+
+    // Residents brought along (a move or an upgrade) take up this building's work
+    building.residents.forEach(villager => this.takeUpHomeWork(villager))
+
+    const storage = BUILDING_DEFINITIONS[building.type].storage
+    if (storage) this.storageManager.register(building, storage)
+    this.productionManager.addBuilding(building)
+    this.farmManager.addFarm(building)
+    this.ecologyManager.addForester(building)
+    this.herdManager.addLodge(building)
+    this.wolfManager.addDeterrent(building)
+    this.updatePopulationDisplay()
+  }
+
+  /**
+   * Give a production building a worker: the nearest villager with a home
+   * and no workplace yet takes up its profession
+   */
+  private hireWorker(building: Building, profession: Profession): Villager | null {
+    let best: Villager | null = null
+    let bestDistance = Infinity
+    for (const villager of this.villagers) {
+      if (!villager.home || villager.workplace || villager.life.stage === 'child') continue
+      const { gridX, gridY } = this.getVillagerTile(villager)
+      const distance = Math.abs(gridX - building.gridX) + Math.abs(gridY - building.gridY)
+      if (distance < bestDistance) {
+        best = villager
+        bestDistance = distance
+      }
+    }
+
+    if (best) {
+      this.jobManager.setProfession(best, profession)
+      console.log(`Villager hired at ${building.type} (${building.gridX}, ${building.gridY}) as ${profession}`)
+    }
+    return best
+  }
+
+  /**
+   * Replace a production building's status icon
+   */
+  private showStatusIndicator(building: Building, status: ProductionStatus): void {
+    building.statusIndicator?.destroy()
+    const offset = BUILDING_DEFINITIONS[building.type].indicatorOffset
+    const indicator = this.uiManager.createStatusIndicator(
+      building.sprite.x,
+      building.sprite.y - TILE_HEIGHT * offset,
+      building.sprite.depth + 1,
+      status
+    )
+    this.objectsContainer.add(indicator)
+    building.statusIndicator = indicator
+  }
+
+  /**
+   * Take a building off the map and free its tiles
+   */
+  private removeBuilding(building: Building): void {
+    const size = BUILDING_DEFINITIONS[building.type].size
+    for (let dy = 0; dy < size; dy++) {
+      for (let dx = 0; dx < size; dx++) {
+        const key = `${building.gridX + dx},${building.gridY + dy}`
+        this.buildingsMap.delete(key)
+        this.occupiedTiles.delete(key)
+      }
+    }
+    this.spatialIndex.removeBuilding(building)
+    this.storageManager.unregister(building)
+    const workers = [
+      this.productionManager.removeBuilding(building),
+      this.farmManager.removeFarm(building),
+      this.ecologyManager.removeForester(building),
+      this.herdManager.removeLodge(building)
+    ]
+    this.wolfManager.removeDeterrent(building)
+    this.pathfinder.invalidate()
+
+    building.lights?.forEach(light => light.destroy())
+    if (building.emptyIndicator) {
+      this.uiManager.hideEmptyBuildingIndicator(building.emptyIndicator)
+    }
+    building.statusIndicator?.destroy()
+    building.sprite.destroy()
+    this.updatePopulationDisplay()
+
+    // Released workers go back to the work their home is for
+    for (const worker of workers) {
+      if (worker) this.takeUpHomeWork(worker)
+    }
+
+    console.log(`${building.type} at (${building.gridX}, ${building.gridY}) removed`)
+  }
+
+  /**
+   * Storage building standing at a tile, if any
+   */
+  private getStoreAt(point: GridPoint): Building | null {
+    const building = this.buildingsMap.get(`${point.gridX},${point.gridY}`)
+    return building && this.storageManager.isStore(building) ? building : null
+  }
+
+  private findDropoff(load: CarriedLoad, from: GridPoint): GridPoint | null {
+    const store = this.storageManager.findSpace(load.resource, from)
+    return store ? { gridX: store.gridX, gridY: store.gridY } : null
+  }
+
+  /**
+   * Put goods into the nearest stores with space; whatever does not fit is lost
+   */
+  private storeGoods(load: CarriedLoad, near: GridPoint): void {
+    let left = load.amount
+    while (left > 0) {
+      const store = this.storageManager.findSpace(load.resource, near)
+      if (!store) {
+        console.log(`No storage space, ${left} ${load.resource} lost`)
+        return
+      }
+      left = this.storageManager.deposit(store, { resource: load.resource, amount: left })
+    }
+  }
+
+  private storeAllGoods(goods: ResourceCost, near: GridPoint): void {
+    for (const [resource, amount] of Object.entries(goods) as [ResourceType, number][]) {
+      if (amount > 0) this.storeGoods({ resource, amount }, near)
+    }
+  }
+
+  /**
+   * Spawn a villager at a building
+   * @param building Home to move into (null = homeless, looks for one)
+   * @param stage Settlers arrive grown up; children are born at home
+   */
+  private spawnVillager(gridX: number, gridY: number, building: Building | null, stage: LifeStage = 'adult'): void {
+    const spawnX = gridX + 0.5
+    const spawnY = gridY + 0.5
+    const { x, y } = gridToScreen(spawnX, spawnY)
+
+    // Create villager inside container
+    const villager = this.add.image(x, y + TILE_HEIGHT, ASSETS.VILLAGERS.WALK_1)
+    villager.setOrigin(0.5, 1)
+
+    // Scale villager to be smaller than buildings, children smaller still
+    const villagerScale = (TILE_WIDTH / villager.width) * VILLAGER_SCALE_FACTOR
+    villager.setScale(stage === 'child' ? villagerScale * POPULATION_CONFIG.childScale : villagerScale)
+
+    // Initial depth based on Y
+    villager.setDepth(villager.y)
+    
+    this.objectsContainer.add(villager)
+
+    const newVillager: Villager = {
+      sprite: villager,
+      state: 'idle',
+      activity: 'work',
+      needs: this.needsManager.createNeeds(),
+      life: this.populationManager.createLife(stage),
+      profession: null,
+      home: null,
+      workplace: null,
+      job: null,
+      carrying: null,
+      targetX: x,
+      targetY: y + TILE_HEIGHT,
+      targetGridX: gridX,
+      targetGridY: gridY,
+      speed: VILLAGER_SPEED,
+      animFrame: 0,
+      animTimer: 0,
+      path: [],
+      pathIndex: 0,
+      pathVersion: this.pathfinder.version,
+      pathRetryTimer: 0
+    }
+    this.villagers.push(newVillager)
+    this.spatialIndex.updateVillager(newVillager, spawnX, spawnY)
+
+    if (building) {
+      this.moveIntoBuilding(newVillager, building)
+    }
+
+    // Work is handed out by the job manager on the next update
+    console.log(`Villager spawned at (${gridX}, ${gridY})`)
+    this.updatePopulationDisplay()
+  }
+
+  /**
+   * Mark a building as waiting for a resident
+   */
+  private showEmptyIndicator(building: Building): void {
+    const offset = BUILDING_DEFINITIONS[building.type].indicatorOffset
+    const indicator = this.uiManager.createEmptyBuildingIndicator(
+      building.sprite.x,
+      building.sprite.y - TILE_HEIGHT * offset,
+      building.sprite.depth + 1
+    )
+    this.objectsContainer.add(indicator)
+    building.emptyIndicator = indicator
+  }
+
+  /**
+   * Make a building the villager's home and take up its profession
+   */
+  private moveIntoBuilding(villager: Villager, building: Building): void {
+    building.residents.push(villager)
+
+    // Update visual: remove indicator
+    if (building.emptyIndicator) {
+      this.uiManager.hideEmptyBuildingIndicator(building.emptyIndicator)
+      building.emptyIndicator = undefined
+    }
+
+    villager.home = building
+    this.takeUpHomeWork(villager)
+    console.log(`Villager moved into ${building.type} at (${building.gridX}, ${building.gridY}) as ${villager.profession}`)
+  }
+
+  /**
+   * Nearest unclaimed work tile of a kind
+   * Only generated chunks are indexed, so the search area is generated first:
+   * a small radius, widened only when nothing is found nearby
+   */
+  private findWorkTile(kind: WorkTileKind, fromX: number, fromY: number): GridPoint | null {
+    for (const radius of [CHUNK_SIZE, WORK_SEARCH_RADIUS]) {
+      this.chunkManager.ensureGenerated({
+        minX: fromX - radius,
+        minY: fromY - radius,
+        maxX: fromX + radius,
+        maxY: fromY + radius
+      })
+
+      const tile = this.spatialIndex.findNearestWorkTile(kind, fromX, fromY, radius, (gridX, gridY) =>
+        !this.jobManager.isTileClaimed(gridX, gridY) && !this.isUnreachable(gridX, gridY))
+      if (tile) return tile
+    }
+
+    return null
+  }
+
+  /**
+   * True for a while after a villager gave up on a site for lack of a path,
+   * so the next search picks a reachable one instead of the same nearest tile
+   */
+  private isUnreachable(gridX: number, gridY: number): boolean {
+    const key = `${gridX},${gridY}`
+    const until = this.unreachableTiles.get(key)
+    if (until === undefined) return false
+    if (until > this.time.now) return true
+
+    this.unreachableTiles.delete(key)
+    return false
+  }
+
+  /**
+   * Update villager movement and animation
+   * Needs decide between work and going home; the job manager decides the work.
+   */
+  private updateVillagers(delta: number): void {
+    const leaving: Villager[] = []
+    const dying: Villager[] = []
+
+    for (const villager of this.villagers) {
+      this.animateVillager(villager, delta)
+      this.ageVillager(villager, delta)
+      if (this.populationManager.isDying(villager)) {
+        dying.push(villager)
+        continue
+      }
+
+      this.needsManager.update(villager, delta)
+      if (this.needsManager.shouldLeave(villager)) {
+        leaving.push(villager)
+        continue
+      }
+
+      if (this.wolfManager.isHunted(villager)) {
+        this.fleeFromWolf(villager)
+        continue
+      }
+      this.chooseActivity(villager)
+
+      // No path last time: wait, then give up the job and look for other work
+      // (somewhere else: the next search skips the target)
+      if (villager.pathRetryTimer > 0) {
+        villager.pathRetryTimer -= delta
+        if (villager.pathRetryTimer <= 0) {
+          this.unreachableTiles.set(`${villager.targetGridX},${villager.targetGridY}`, this.time.now + PATHFINDING_CONFIG.unreachableMemory)
+          this.jobManager.abandon(villager)
+        }
+        continue
+      }
+
+      if (villager.activity !== 'work') {
+        this.updateHomeActivity(villager)
+        continue
+      }
+
+      if (villager.life.stage === 'child') {
+        this.updateChild(villager)
+        continue
+      }
+
+      if (villager.state === 'walking' && this.moveVillager(villager)) {
+        villager.state = 'idle'
+        this.jobManager.onArrive(villager)
+      }
+
+      // Hungry, tired or cold villagers work slower
+      this.jobManager.update(villager, delta * this.needsManager.getWorkEfficiency(villager))
+
+      // Homeless villagers look for an empty building to move into once their job is done
+      if (!villager.home && !villager.job && villager.state !== 'working') {
+        this.seekHome(villager)
+      }
+    }
+
+    leaving.forEach(villager => {
+      console.log('Villager left the village, needs were not met', villager.needs)
+      this.removeVillager(villager)
+    })
+    dying.forEach(villager => {
+      console.log(`Villager died of old age at ${villager.life.age.toFixed(1)} days`)
+      this.removeVillager(villager)
+    })
+  }
+
+  /**
+   * A wolf is after them: run home and stay in for the night, or without a
+   * home to hide in just run away from the wolf
+   */
+  private fleeFromWolf(villager: Villager): void {
+    const home = villager.home?.constructed ? villager.home : null
+    if (home) {
+      if (villager.activity !== 'sleep') {
+        console.log('Villager flees home from a wolf')
+        this.jobManager.abandon(villager)
+        villager.activity = 'sleep'
+        this.setVillagerDestination(villager, home.gridX, home.gridY)
+      }
+      this.updateHomeActivity(villager)
+      return
+    }
+
+    if (villager.job || villager.state !== 'walking') {
+      this.jobManager.abandon(villager)
+      const hunter = this.wolfManager.getHunterTile(villager)
+      const { gridX, gridY } = this.getVillagerTile(villager)
+      if (hunter) {
+        const away = this.pickWanderTile(
+          gridX + Math.sign(gridX - hunter.gridX) * WOLF_CONFIG.fleeDistance,
+          gridY + Math.sign(gridY - hunter.gridY) * WOLF_CONFIG.fleeDistance,
+          1
+        )
+        this.setVillagerDestination(villager, away.gridX, away.gridY)
+      }
+    }
+    if (villager.state === 'walking' && this.moveVillager(villager)) villager.state = 'idle'
+  }
+
+  /**
+   * Grow a villager older: children grow up and take up work, adults turn grey
+   */
+  private ageVillager(villager: Villager, delta: number): void {
+    const stage = this.populationManager.update(villager, delta)
+    if (stage === 'adult') {
+      villager.sprite.setScale(villager.sprite.scaleX / POPULATION_CONFIG.childScale)
+      this.takeUpHomeWork(villager)
+      console.log('Villager grew up')
+    } else if (stage === 'elder') {
+      villager.sprite.setTint(POPULATION_CONFIG.elderTint)
+    }
+  }
+
+  /**
+   * Children do not work: they play around the village and find a home if they lost theirs
+   */
+  private updateChild(villager: Villager): void {
+    if (villager.state === 'walking') {
+      if (this.moveVillager(villager)) villager.state = 'idle'
+      return
+    }
+
+    if (!villager.home) {
+      this.seekHome(villager)
+      if (villager.home) return
+    }
+    this.wander(villager)
+  }
+
+  /**
+   * Head for the nearest home with room and move in once there
+   */
+  private seekHome(villager: Villager): void {
+    const emptyHome = this.findEmptyBuilding(villager.targetGridX, villager.targetGridY)
+    if (emptyHome && (emptyHome.gridX !== villager.targetGridX || emptyHome.gridY !== villager.targetGridY)) {
+      // Set target to home. 'checkNearbyBuildings' will handle the entry.
+      this.setVillagerDestination(villager, emptyHome.gridX, emptyHome.gridY)
+    }
+    this.checkNearbyBuildings(villager)
+  }
+
+  /**
+   * Homes with room, an adult and food to spare may have a child
+   */
+  private updateBirths(): void {
+    const homes = new Set([...this.buildingsMap.values()].filter(building => this.isHome(building)))
+    for (const home of homes) {
+      const food = EDIBLE_RESOURCES.find(type => this.resourceManager.get(type) >= POPULATION_CONFIG.birthFood)
+      if (!this.populationManager.rollBirth(home, food ? this.resourceManager.get(food) : 0)) continue
+      if (!food || !this.storageManager.withdraw({ [food]: POPULATION_CONFIG.birthFood }, home)) continue
+
+      console.log(`A child was born at ${home.type} (${home.gridX}, ${home.gridY})`)
+      this.spawnVillager(home.gridX, home.gridY, home, 'child')
+    }
+  }
+
+  /**
+   * Population vs. room in finished homes, shown in the HUD
+   */
+  private updatePopulationDisplay(): void {
+    let capacity = 0
+    for (const building of new Set(this.buildingsMap.values())) {
+      if (building.constructed) capacity += BUILDING_DEFINITIONS[building.type].capacity
+    }
+    this.uiManager.updatePopulation(this.villagers.length, capacity)
+  }
+
+  /**
+   * Let the needs layer pick what the villager does next
+   */
+  private chooseActivity(villager: Villager): void {
+    const foodAvailable = this.findMeal() !== null
+    const activity = this.needsManager.chooseActivity(villager, foodAvailable)
+    if (activity === villager.activity) return
+
+    console.log(`Villager switches from ${villager.activity} to ${activity}`)
+    villager.activity = activity
+
+    if (activity === 'work') {
+      this.leaveHome(villager)
+    } else if (villager.state !== 'inside' && villager.home) {
+      // Drop the job (posted work goes back to the queue) and head home
+      this.jobManager.abandon(villager)
+      this.setVillagerDestination(villager, villager.home.gridX, villager.home.gridY)
+    }
+  }
+
+  /**
+   * Eating, sleeping or warming up: walk home, then stay inside
+   */
+  private updateHomeActivity(villager: Villager): void {
+    if (villager.state === 'walking') {
+      if (this.moveVillager(villager)) this.enterHome(villager)
+      return
+    }
+
+    if (villager.state !== 'inside') {
+      if (villager.home) this.setVillagerDestination(villager, villager.home.gridX, villager.home.gridY)
+      return
+    }
+
+    if (villager.activity === 'eat' && villager.needs.food < 1) {
+      const meal = this.findMeal()
+      if (meal && this.storageManager.withdraw({ [meal]: NEEDS_CONFIG.mealSize }, villager.home)) {
+        villager.needs.food = 1
+        console.log(`Villager ate ${meal}. Left: ${this.resourceManager.get(meal)}`)
+      }
+    }
+  }
+
+  /**
+   * First edible resource with enough in stock for a meal
+   */
+  private findMeal(): ResourceType | null {
+    return EDIBLE_RESOURCES.find(type => this.resourceManager.get(type) >= NEEDS_CONFIG.mealSize) ?? null
+  }
+
+  private enterHome(villager: Villager): void {
+    villager.state = 'inside'
+    villager.sprite.setVisible(false)
+  }
+
+  private leaveHome(villager: Villager): void {
+    if (villager.state === 'inside') {
+      villager.sprite.setVisible(true)
+    }
+    villager.state = 'idle'
+  }
+
+  /**
+   * Adults work at what their home is for; children wait until they grow up
+   * and anyone hired keeps the job they were hired for while the workplace stands
+   */
+  private takeUpHomeWork(villager: Villager): void {
+    if (!villager.home || villager.workplace || villager.life.stage === 'child') return
+    this.jobManager.setProfession(villager, BUILDING_DEFINITIONS[villager.home.type].profession ?? null)
+  }
+
+  /**
+   * Homes with a free place for a resident
+   */
+  private hasRoom(building: Building): boolean {
+    return building.constructed && building.residents.length < BUILDING_DEFINITIONS[building.type].capacity
+  }
+
+  /**
+   * A villager leaves the village for good: moved away or died
+   */
+  private removeVillager(villager: Villager): void {
+    this.jobManager.abandon(villager)
+    this.farmManager.releaseWorker(villager)
+    this.ecologyManager.releaseWorker(villager)
+    this.herdManager.releaseWorker(villager)
+    this.productionManager.releaseWorker(villager)
+    this.wolfManager.releasePrey(villager)
+    this.spatialIndex.removeVillager(villager)
+    this.villagers = this.villagers.filter(other => other !== villager)
+
+    const home = villager.home
+    if (home) {
+      home.residents = home.residents.filter(resident => resident !== villager)
+      if (home.constructed && home.residents.length === 0) this.showEmptyIndicator(home)
+      villager.home = null
+    }
+
+    this.tweens.add({
+      targets: villager.sprite,
+      alpha: 0,
+      duration: 1000,
+      onComplete: () => villager.sprite.destroy()
+    })
+    this.updatePopulationDisplay()
+  }
+
+  /**
+   * Walk cycle while walking, standing frame otherwise
+   */
+  private animateVillager(villager: Villager, delta: number): void {
+    if (villager.state !== 'walking') {
+      if (villager.animFrame !== 0) {
+        villager.animFrame = 0
+        villager.sprite.setTexture(ASSETS.VILLAGERS.WALK_1)
+      }
+      return
+    }
+
+    villager.animTimer += delta
+    if (villager.animTimer > VILLAGER_ANIM_INTERVAL) {
+      villager.animTimer = 0
+      villager.animFrame = (villager.animFrame + 1) % 2
+      const texture = villager.animFrame === 0 ? ASSETS.VILLAGERS.WALK_1 : ASSETS.VILLAGERS.WALK_2
+      villager.sprite.setTexture(texture)
+    }
+  }
+
+  /**
+   * Move a villager one step along their path
+   * @returns True when the target has been reached
+   */
+  private moveVillager(villager: Villager): boolean {
+    // The world changed since the path was planned: repath if it is now blocked
+    if (villager.pathVersion !== this.pathfinder.version) {
+      villager.pathVersion = this.pathfinder.version
+      if (!this.pathfinder.isPathClear(villager.path, villager.pathIndex)) {
+        console.log('Villager path blocked, repathing')
+        if (!this.setVillagerDestination(villager, villager.targetGridX, villager.targetGridY)) return false
+      }
+    }
+
+    // Walk waypoint by waypoint; the last one is the target itself
+    const waypoint: GridPoint | undefined = villager.path[villager.pathIndex]
+    const next = waypoint ? this.getTileFeetPosition(waypoint.gridX, waypoint.gridY) : { x: villager.targetX, y: villager.targetY }
+    const dx = next.x - villager.sprite.x
+    const dy = next.y - villager.sprite.y
+    const distance = Math.sqrt(dx * dx + dy * dy)
+
+    if (!waypoint && distance < 5) {
+      return true
+    }
+
+    // Paths and roads underfoot speed the walk up
+    const from = this.getVillagerTile(villager)
+    const speed = villager.speed * getSpeedMultiplier(this.chunkManager.getTerrain(from.gridX, from.gridY))
+
+    if (waypoint && distance <= speed) {
+      // Reached a waypoint
+      villager.sprite.setPosition(next.x, next.y)
+      villager.pathIndex++
+    } else {
+      // Move towards target
+      villager.sprite.x += (dx / distance) * speed
+      villager.sprite.y += (dy / distance) * speed
+    }
+
+    // Update depth to Y position
+    villager.sprite.setDepth(villager.sprite.y)
+
+    // Keep the spatial index in sync (feet position, in grid units)
+    const feet = this.getVillagerTile(villager)
+    this.spatialIndex.updateVillager(villager, feet.gridX, feet.gridY)
+
+    // Every step onto a new tile wears the ground a little
+    if (feet.gridX !== from.gridX || feet.gridY !== from.gridY) {
+      this.roadManager.step(feet.gridX, feet.gridY)
+    }
+    return false
+  }
+
+  /**
+   * Plan a path to a tile and send the villager on its way
+   * If the tile can't be reached the villager waits and retries later.
+   * @returns False if there is no path
+   */
+  private setVillagerDestination(villager: Villager, gridX: number, gridY: number): boolean {
+    const from = this.getVillagerTile(villager)
+    const path = this.pathfinder.findPath(from.gridX, from.gridY, gridX, gridY)
+
+    const target = this.getTileFeetPosition(gridX, gridY)
+    villager.targetX = target.x
+    villager.targetY = target.y
+    villager.targetGridX = gridX
+    villager.targetGridY = gridY
+    villager.path = path ?? []
+    villager.pathIndex = 0
+    villager.pathVersion = this.pathfinder.version
+
+    if (path) {
+      villager.state = 'walking'
+      return true
+    }
+
+    villager.state = 'idle'
+    villager.pathRetryTimer = PATHFINDING_CONFIG.retryInterval
+    console.log(`No path to (${gridX}, ${gridY}), villager waits`)
+    return false
+  }
+
+  /**
+   * Send a villager to a random walkable tile nearby
+   */
+  private wander(villager: Villager): void {
+    const { gridX, gridY } = this.getVillagerTile(villager)
+    const wander = this.pickWanderTile(gridX, gridY, VILLAGER_WANDER_RADIUS)
+    this.setVillagerDestination(villager, wander.gridX, wander.gridY)
+  }
+
+  /**
+   * Random walkable tile around a point (falls back to the point itself)
+   */
+  private pickWanderTile(gridX: number, gridY: number, radius: number): GridPoint {
+    for (let attempt = 0; attempt < 8; attempt++) {
+      const wanderX = gridX + this.random.between(-radius, radius)
+      const wanderY = gridY + this.random.between(-radius, radius)
+      if (this.pathfinder.isWalkable(wanderX, wanderY)) {
+        return { gridX: wanderX, gridY: wanderY }
+      }
+    }
+    return { gridX, gridY }
+  }
+
+  /**
+   * Tile under a villager's feet
+   */
+  private getVillagerTile(villager: Villager): GridPoint {
+    return screenToGrid(villager.sprite.x, villager.sprite.y - TILE_HEIGHT)
+  }
+
+  /**
+   * Where a villager stands on a tile (container-local screen coordinates)
+   * Sprites are anchored at their feet, one tile height below the tile centre
+   */
+  private getTileFeetPosition(gridX: number, gridY: number): { x: number, y: number } {
+    const { x, y } = gridToScreen(gridX + 0.5, gridY + 0.5)
+    return { x, y: y + TILE_HEIGHT }
+  }
+
+  /**
+   * Find nearest empty building
+   */
+  private findEmptyBuilding(gridX: number, gridY: number): { gridX: number, gridY: number } | null {
+      const [nearest] = this.spatialIndex.buildings.nearest(gridX, gridY, 1, Infinity,
+        building => this.hasRoom(building))
+
       return nearest ? { gridX: nearest.gridX, gridY: nearest.gridY } : null
   }
 
   /**
-   * Check if villager is near an empty building and move in
+   * Check if a homeless villager is near an empty building and move in
    */
   private checkNearbyBuildings(villager: Villager): void {
-    // Only checking if not already assigned a specific task (like cutting wood)
-    // But currently 'walking' covers everything. We should ideally differentiate 'wandering' vs 'working_walk'
-    // For this prototype, let's just check proximity to ANY empty building
-    
     // Calculate current grid position
-    const { gridX, gridY } = screenToGrid(villager.sprite.x, villager.sprite.y - TILE_HEIGHT)
+    const { gridX, gridY } = this.getVillagerTile(villager)
     
     // Check if we are AT an empty building (or very close)
     // We iterate because sometimes exact gridX/Y might miss if they are between tiles
     // Check 3x3 area around villager
-    let foundBuilding = null
-    let buildingKey = ''
-
     for (let dy = -1; dy <= 1; dy++) {
         for (let dx = -1; dx <= 1; dx++) {
-            const key = `${gridX + dx},${gridY + dy}`
-            const building = this.buildingsMap.get(key)
-            if (building && !building.occupied && (building.type === 'house' || building.type === 'teepee')) {
-                foundBuilding = building
-                buildingKey = key
-                break
+            const building = this.buildingsMap.get(`${gridX + dx},${gridY + dy}`)
+            if (building && this.hasRoom(building)) {
+                this.moveIntoBuilding(villager, building)
+
+                // Stop here; the job manager finds work on the next update
+                this.jobManager.abandon(villager)
+                villager.state = 'idle'
+                return
             }
         }
-        if (foundBuilding) break
-    }
-    
-    if (foundBuilding) {
-        // Move in!
-        foundBuilding.occupied = true
-        
-        // Update visual: remove indicator
-        if ((foundBuilding as any).emptyIndicator) {
-            this.uiManager.hideEmptyBuildingIndicator((foundBuilding as any).emptyIndicator)
-            ;(foundBuilding as any).emptyIndicator = undefined
-        }
-        
-        console.log(`Villager moved into ${foundBuilding.type} at ${buildingKey}`)
-
-        // Convert villager to the building's job type
-        villager.type = foundBuilding.type
-        // Set home location to this building (Local coordinates within container)
-        const { x, y } = gridToScreen(foundBuilding.gridX + 0.5, foundBuilding.gridY + 0.5)
-        villager.homeX = x 
-        villager.homeY = y + TILE_HEIGHT
-        
-        console.log(`Home set to local: ${villager.homeX}, ${villager.homeY} for grid ${foundBuilding.gridX},${foundBuilding.gridY}`)
-        
-        // Reset state to trigger job logic in next update
-        villager.state = 'walking' 
     }
   }
 
@@ -998,21 +1970,21 @@ export class GameScene extends Phaser.Scene {
       const { gridX, gridY } = screenToGrid(worldX, worldY)
 
       // Position ghost building at grid location (relative to container)
-      const size = this.placementBuildingType === 'house' ? 2 : 1
-      const centerOffset = size === 2 ? 1.0 : 0.5
-      const { x, y } = gridToScreen(gridX + centerOffset, gridY + centerOffset)
-      
-      this.ghostBuilding.setPosition(x, y + TILE_HEIGHT)
+      const entry = getMenuEntry(this.placementBuildingType)
+      const { x, y } = this.getFootprintBase(gridX, gridY, entry.size)
+      this.ghostBuilding.setPosition(x, y)
 
       // Update depth to Y position
       this.ghostBuilding.setDepth(this.ghostBuilding.y)
 
       // Check if valid placement and tint accordingly
-      const valid = this.isValidPlacement(gridX, gridY, size)
-      if (valid) {
-        this.ghostBuilding.setTint(0x00ff00) // Green = valid
+      const allowed = this.placementBuildingType === 'villager' ? undefined : BUILDING_DEFINITIONS[this.placementBuildingType].terrain
+      if (!this.isValidPlacement(gridX, gridY, entry.size, allowed, this.movingBuilding ?? undefined)) {
+        this.ghostBuilding.setTint(UI_CONFIG.colors.ghostBlocked)
+      } else if (!this.resourceManager.canAfford(this.getPlacementCost(this.placementBuildingType, this.movingBuilding))) {
+        this.ghostBuilding.setTint(UI_CONFIG.colors.ghostUnaffordable)
       } else {
-        this.ghostBuilding.setTint(0xff0000) // Red = invalid
+        this.ghostBuilding.setTint(UI_CONFIG.colors.ghostValid)
       }
 
       // Cancel with right click or ESC
@@ -1022,11 +1994,26 @@ export class GameScene extends Phaser.Scene {
       }
     }
 
+    // Tool mode: highlight the building under the pointer
+    if (this.toolMode) {
+      const { gridX, gridY } = this.getPointerTile(this.input.activePointer)
+      if (this.toolMode !== 'road') this.setHoveredBuilding(this.buildingsMap.get(`${gridX},${gridY}`) ?? null)
+
+      const escKey = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.ESC)
+      if (this.input.activePointer.rightButtonDown() || escKey.isDown) {
+        this.exitToolMode()
+      }
+    }
+
     // Delegate input update to manager
     this.inputManager.update()
 
+    // Stream world chunks around the camera
+    this.updateChunkStreaming()
+
     // Update Time
     this.timeManager.update(this.game.loop.delta)
+    this.resourceManager.update(this.game.loop.delta)
     if (this.darknessOverlay) {
         this.darknessOverlay.setAlpha(this.timeManager.getDarknessLevel())
     }
@@ -1035,10 +2022,15 @@ export class GameScene extends Phaser.Scene {
 
     // Update villagers
     this.updateVillagers(this.game.loop.delta)
+    this.wolfManager.update(this.game.loop.delta)
+    this.herdManager.update(this.game.loop.delta)
 
     // Update cut trees
     this.updateCutTrees(this.game.loop.delta)
 
+    // Re-bake chunks whose tiles changed this frame
+    this.terrainRenderer.flush()
+
     // Force sort objects by depth
     this.objectsContainer.sort('depth')
   }
@@ -1048,13 +2040,19 @@ export class GameScene extends Phaser.Scene {
    */
   private updateLights(): void {
     const intensity = this.timeManager.getLightIntensity()
+
+    // Lights only burn where somebody is home
+    const homesWithResidents = new Set(
+      this.villagers.filter(villager => villager.state === 'inside').map(villager => villager.home)
+    )
     
     for (const building of this.buildingsMap.values()) {
         if (building.lights) {
+            const lit = homesWithResidents.has(building)
             building.lights.forEach(light => {
                 light.setAlpha(intensity)
                 // Only show light if it's dark enough (alpha > 0)
-                light.setVisible(intensity > 0.01)
+                light.setVisible(lit && intensity > 0.01)
             })
         }
     }
@@ -1074,7 +2072,53 @@ export class GameScene extends Phaser.Scene {
   }
 
   /**
-   * Update cut trees - convert to meadow after 5 seconds
+   * A worker arrives at storage with a load
+   * @returns Amount that did not fit
+   */
+  private deliverResource(load: CarriedLoad, at: GridPoint): number {
+    const store = this.getStoreAt(at)
+    const left = store ? this.storageManager.deposit(store, load) : load.amount
+    console.log(`Delivered ${load.amount - left} ${load.resource}. Total: ${this.resourceManager.get(load.resource)}`)
+    return left
+  }
+
+  /**
+   * Refresh the resource bar trend arrows from recent income and expense
+   */
+  private updateResourceTrends(): void {
+    for (const type of Object.keys(RESOURCE_CONFIG) as ResourceType[]) {
+      const { income, expense } = this.resourceManager.getRates(type)
+      this.uiManager.updateResourceTrend(type, income - expense)
+    }
+  }
+
+  /**
+   * Fell a tree: leave a stump (setTerrain removes the sprite)
+   * The stump is no longer tree terrain, so nobody targets it again
+   */
+  private cutTree(gridX: number, gridY: number): void {
+    this.setTerrain(gridX, gridY, TerrainType.STUMP)
+
+    // Stump turns into meadow after a while
+    this.cutTrees.push({ gridX, gridY, timer: 0 })
+    console.log(`Tree at (${gridX}, ${gridY}) cut down`)
+  }
+
+  /**
+   * Break rocks down one stage; setTerrain shrinks the sprite and the last
+   * stage leaves meadow
+   */
+  private quarryRock(gridX: number, gridY: number): void {
+    const next = QUARRY_STAGES[this.chunkManager.getTerrain(gridX, gridY)]
+    if (!next) return
+
+    this.setTerrain(gridX, gridY, next)
+    if (next === TerrainType.MEADOW) console.log(`Rocks at (${gridX}, ${gridY}) quarried out`)
+  }
+
+  /**
+   * Update cut trees - convert stumps to meadow after 5 seconds,
+   * where the forest around can seed it again
    */
   private updateCutTrees(delta: number): void {
     for (let i = this.cutTrees.length - 1; i >= 0; i--) {
@@ -1082,34 +2126,13 @@ export class GameScene extends Phaser.Scene {
       cutTree.timer += delta
 
       if (cutTree.timer > FOREST_TO_MEADOW_DELAY) {
-        // Change terrain type to meadow
-        this.terrain[cutTree.gridY][cutTree.gridX] = TerrainType.MEADOW
-
-        // Update tile graphics
-        const tileKey = `${cutTree.gridX},${cutTree.gridY}`
-        const tile = this.tileGraphicsMap.get(tileKey)
-        if (tile) {
-          tile.clear()
-          tile.fillStyle(TERRAIN_COLORS[TerrainType.MEADOW], 1)
-
-          const { x, y } = gridToScreen(cutTree.gridX, cutTree.gridY)
-          // Draw diamond shape
-          tile.beginPath()
-          tile.moveTo(x, y) // Top point
-          tile.lineTo(x + TILE_WIDTH / 2, y + TILE_HEIGHT / 2) // Right point
-          tile.lineTo(x, y + TILE_HEIGHT) // Bottom point
-          tile.lineTo(x - TILE_WIDTH / 2, y + TILE_HEIGHT / 2) // Left point
-          tile.closePath()
-          tile.fillPath()
-        }
-
-        // Remove from occupied tiles
-        this.occupiedTiles.delete(`${cutTree.gridX},${cutTree.gridY}`)
+        // Change terrain type to meadow (kept in chunk data even when unloaded)
+        this.setTerrain(cutTree.gridX, cutTree.gridY, TerrainType.MEADOW)
 
         // Remove from cutTrees list
         this.cutTrees.splice(i, 1)
 
-        console.log(`Forest at (${cutTree.gridX}, ${cutTree.gridY}) converted to meadow`)
+        console.log(`Stump at (${cutTree.gridX}, ${cutTree.gridY}) converted to meadow`)
       }
     }
   }
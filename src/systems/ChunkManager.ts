@@ -0,0 +1,200 @@
+import {
+  TerrainType,
+  CHUNK_SIZE,
+  CHUNK_LOAD_MARGIN,
+  CHUNK_UNLOAD_MARGIN,
+  CHUNK_LOADS_PER_FRAME
+} from '@/config/constants'
+import { TerrainGenerator } from './TerrainGenerator'
+import { HydrologyGenerator } from './HydrologyGenerator'
+
+export interface Chunk {
+  chunkX: number
+  chunkY: number
+  terrain: TerrainType[]  // Row-major, CHUNK_SIZE x CHUNK_SIZE
+  loaded: boolean         // Has tile graphics and objects in the scene
+}
+
+export interface GridBounds {
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+}
+
+export interface ChunkEvents {
+  onChunkGenerate: (chunk: Chunk) => void  // Terrain data created (once per chunk)
+  onChunkLoad: (chunk: Chunk) => void
+  onChunkUnload: (chunk: Chunk) => void
+}
+
+/**
+ * Chunk coordinate containing a grid coordinate (works for negatives)
+ */
+export function toChunkCoord(gridCoord: number): number {
+  return Math.floor(gridCoord / CHUNK_SIZE)
+}
+
+/**
+ * ChunkManager
+ * Owns the world's terrain data. Chunks are generated lazily from the seed
+ * the first time any of their tiles is read, and stay in memory from then on,
+ * so changes (cut trees, buildings) survive the chunk being unloaded.
+ * Loading/unloading only controls whether a chunk has graphics in the scene.
+ */
+export class ChunkManager {
+  private chunks: Map<string, Chunk> = new Map()
+  private generator: TerrainGenerator
+  private hydrology: HydrologyGenerator
+  private events: ChunkEvents
+
+  constructor(seed: number, events: ChunkEvents) {
+    this.generator = new TerrainGenerator(seed)
+    this.hydrology = new HydrologyGenerator(this.generator, seed)
+    this.events = events
+  }
+
+  /**
+   * Get terrain at a tile (generates the chunk's data if needed)
+   */
+  public getTerrain(gridX: number, gridY: number): TerrainType {
+    const chunk = this.getChunk(toChunkCoord(gridX), toChunkCoord(gridY))
+    return chunk.terrain[this.localIndex(gridX, gridY)]
+  }
+
+  /**
+   * Change terrain at a tile. The change is kept even after the chunk unloads.
+   */
+  public setTerrain(gridX: number, gridY: number, type: TerrainType): void {
+    const chunk = this.getChunk(toChunkCoord(gridX), toChunkCoord(gridY))
+    chunk.terrain[this.localIndex(gridX, gridY)] = type
+  }
+
+  /**
+   * Get chunk data, generating it on first access
+   */
+  public getChunk(chunkX: number, chunkY: number): Chunk {
+    const key = `${chunkX},${chunkY}`
+    let chunk = this.chunks.get(key)
+    if (!chunk) {
+      chunk = this.generateChunk(chunkX, chunkY)
+      this.chunks.set(key, chunk)
+      this.events.onChunkGenerate(chunk)
+    }
+    return chunk
+  }
+
+  /**
+   * Make sure terrain data exists for every chunk overlapping a grid rectangle
+   */
+  public ensureGenerated(bounds: GridBounds): void {
+    for (let chunkY = toChunkCoord(bounds.minY); chunkY <= toChunkCoord(bounds.maxY); chunkY++) {
+      for (let chunkX = toChunkCoord(bounds.minX); chunkX <= toChunkCoord(bounds.maxX); chunkX++) {
+        this.getChunk(chunkX, chunkY)
+      }
+    }
+  }
+
+  /**
+   * True if the tile's chunk currently has graphics in the scene
+   */
+  public isTileLoaded(gridX: number, gridY: number): boolean {
+    const chunk = this.chunks.get(`${toChunkCoord(gridX)},${toChunkCoord(gridY)}`)
+    return chunk ? chunk.loaded : false
+  }
+
+  public getLoadedChunks(): Chunk[] {
+    return [...this.chunks.values()].filter(chunk => chunk.loaded)
+  }
+
+  /**
+   * Grid bounds covered by all loaded chunks (null if none)
+   */
+  public getLoadedBounds(): GridBounds | null {
+    const loaded = this.getLoadedChunks()
+    if (loaded.length === 0) return null
+
+    return {
+      minX: Math.min(...loaded.map(c => c.chunkX)) * CHUNK_SIZE,
+      minY: Math.min(...loaded.map(c => c.chunkY)) * CHUNK_SIZE,
+      maxX: (Math.max(...loaded.map(c => c.chunkX)) + 1) * CHUNK_SIZE - 1,
+      maxY: (Math.max(...loaded.map(c => c.chunkY)) + 1) * CHUNK_SIZE - 1
+    }
+  }
+
+  /**
+   * Stream chunks around the visible area
+   * @param view Grid bounds currently visible on screen
+   * @param maxLoads Maximum chunks to load this call (nearest first)
+   * @returns True if any chunk was loaded or unloaded
+   */
+  public update(view: GridBounds, maxLoads: number = CHUNK_LOADS_PER_FRAME): boolean {
+    const minChunkX = toChunkCoord(view.minX) - CHUNK_LOAD_MARGIN
+    const maxChunkX = toChunkCoord(view.maxX) + CHUNK_LOAD_MARGIN
+    const minChunkY = toChunkCoord(view.minY) - CHUNK_LOAD_MARGIN
+    const maxChunkY = toChunkCoord(view.maxY) + CHUNK_LOAD_MARGIN
+    let changed = false
+
+    // Unload chunks well outside the view (margin gives hysteresis)
+    const unloadDistance = CHUNK_UNLOAD_MARGIN - CHUNK_LOAD_MARGIN
+    for (const chunk of this.chunks.values()) {
+      if (!chunk.loaded) continue
+      if (
+        chunk.chunkX < minChunkX - unloadDistance || chunk.chunkX > maxChunkX + unloadDistance ||
+        chunk.chunkY < minChunkY - unloadDistance || chunk.chunkY > maxChunkY + unloadDistance
+      ) {
+        chunk.loaded = false
+        this.events.onChunkUnload(chunk)
+        changed = true
+      }
+    }
+
+    // Collect missing chunks, nearest to the view centre first
+    const centerX = (minChunkX + maxChunkX) / 2
+    const centerY = (minChunkY + maxChunkY) / 2
+    const missing: Array<{ chunkX: number, chunkY: number, dist: number }> = []
+    for (let chunkY = minChunkY; chunkY <= maxChunkY; chunkY++) {
+      for (let chunkX = minChunkX; chunkX <= maxChunkX; chunkX++) {
+        const existing = this.chunks.get(`${chunkX},${chunkY}`)
+        if (existing && existing.loaded) continue
+        missing.push({ chunkX, chunkY, dist: Math.abs(chunkX - centerX) + Math.abs(chunkY - centerY) })
+      }
+    }
+    missing.sort((a, b) => a.dist - b.dist)
+
+    for (const { chunkX, chunkY } of missing.slice(0, maxLoads)) {
+      const chunk = this.getChunk(chunkX, chunkY)
+      chunk.loaded = true
+      this.events.onChunkLoad(chunk)
+      changed = true
+    }
+
+    return changed
+  }
+
+  /**
+   * Generate biomes and carve rivers for one chunk
+   */
+  private generateChunk(chunkX: number, chunkY: number): Chunk {
+    const originX = chunkX * CHUNK_SIZE
+    const originY = chunkY * CHUNK_SIZE
+    const terrain: TerrainType[] = new Array(CHUNK_SIZE * CHUNK_SIZE)
+
+    for (let localY = 0; localY < CHUNK_SIZE; localY++) {
+      for (let localX = 0; localX < CHUNK_SIZE; localX++) {
+        terrain[localY * CHUNK_SIZE + localX] = this.generator.getTerrainAt(originX + localX, originY + localY)
+      }
+    }
+
+    // Drainage pass: springs -> rivers -> lakes
+    this.hydrology.carveChunk(originX, originY, CHUNK_SIZE, terrain)
+
+    return { chunkX, chunkY, terrain, loaded: false }
+  }
+
+  private localIndex(gridX: number, gridY: number): number {
+    const localX = gridX - toChunkCoord(gridX) * CHUNK_SIZE
+    const localY = gridY - toChunkCoord(gridY) * CHUNK_SIZE
+    return localY * CHUNK_SIZE + localX
+  }
+}
@@ -0,0 +1,242 @@
+import Phaser from 'phaser'
+import { CONSTRUCTION_CONFIG } from '@/config/constants'
+import { BUILDING_DEFINITIONS } from '@/config/buildings'
+import { JOB_CONFIG } from '@/config/jobs'
+import type { Building, CarriedLoad, ConstructionSite, Job, Pickup, ResourceCost, ResourceType } from '@/types/game'
+import type { JobManager } from './JobManager'
+
+export interface ConstructionEvents {
+  isPickupValid: (pickup: Pickup) => boolean  // The store is still standing
+  onComplete: (building: Building) => void
+}
+
+/**
+ * ConstructionManager
+ * Placed buildings start as construction sites. Materials are taken out of
+ * storage when the site is placed, carried over by haulers and, once all are
+ * on site, builders put in the work. Both are ordinary posted jobs, so any
+ * villager can pick them up. The site is drawn as a faded building behind
+ * scaffolding with a progress bar above it.
+ */
+export class ConstructionManager {
+  private scene: Phaser.Scene
+  private container: Phaser.GameObjects.Container
+  private jobManager: JobManager
+  private events: ConstructionEvents
+  private sites: Map<Building, ConstructionSite> = new Map()
+
+  constructor(scene: Phaser.Scene, container: Phaser.GameObjects.Container, jobManager: JobManager, events: ConstructionEvents) {
+    this.scene = scene
+    this.container = container
+    this.jobManager = jobManager
+    this.events = events
+  }
+
+  /**
+   * Turn a freshly placed building into a construction site
+   * @param pickups Materials already taken out of storage for this building
+   */
+  public startSite(building: Building, pickups: Pickup[]): ConstructionSite {
+    building.constructed = false
+    building.sprite.setAlpha(CONSTRUCTION_CONFIG.siteAlpha)
+
+    const scaffolding = this.scene.add.graphics()
+    scaffolding.setDepth(building.sprite.depth + 0.2)
+    const progressBar = this.scene.add.graphics()
+    progressBar.setDepth(building.sprite.depth + 0.3)
+    this.container.add([scaffolding, progressBar])
+
+    const site: ConstructionSite = {
+      building,
+      required: {},
+      delivered: {},
+      workDone: 0,
+      workRequired: BUILDING_DEFINITIONS[building.type].buildTime,
+      jobs: new Set(),
+      cancelled: false,
+      scaffolding,
+      progressBar
+    }
+    this.sites.set(building, site)
+    this.drawScaffolding(site)
+
+    // Materials travel in batches, one hauling job each
+    for (const { from, load } of pickups) {
+      site.required[load.resource] = (site.required[load.resource] ?? 0) + load.amount
+      for (let left = load.amount; left > 0; left -= CONSTRUCTION_CONFIG.haulBatch) {
+        this.postHaul(site, { from, load: { resource: load.resource, amount: Math.min(left, CONSTRUCTION_CONFIG.haulBatch) } })
+      }
+    }
+    this.checkMaterials(site)
+
+    console.log(`Construction site for ${building.type} at (${building.gridX}, ${building.gridY})`)
+    return site
+  }
+
+  public getSite(building: Building): ConstructionSite | undefined {
+    return this.sites.get(building)
+  }
+
+  /**
+   * Abandon a site and stop all work on it
+   * @returns Materials to put back into storage. Nothing is used up before
+   *   completion, so that is the whole committed cost: delivered, in
+   *   transit and still waiting to be collected.
+   */
+  public cancelSite(site: ConstructionSite): ResourceCost {
+    site.cancelled = true
+    for (const job of [...site.jobs]) {
+      this.jobManager.cancel(job)
+    }
+    site.jobs.clear()
+    this.removeSite(site)
+
+    console.log(`Construction of ${site.building.type} at (${site.building.gridX}, ${site.building.gridY}) cancelled`)
+    return { ...site.required }
+  }
+
+  /**
+   * Overall progress: materials count for half, construction work for the rest
+   */
+  public getProgress(site: ConstructionSite): number {
+    const required = sumCost(site.required)
+    const materials = required > 0 ? sumCost(site.delivered) / required : 1
+    const work = site.workRequired > 0 ? Math.min(1, site.workDone / site.workRequired) : 1
+    return required > 0 ? (materials + work) / 2 : work
+  }
+
+  private postHaul(site: ConstructionSite, pickup: Pickup): void {
+    const { gridX, gridY } = site.building
+    const { from, load } = pickup
+
+    // The store is gone: count the goods as brought along rather than lose them
+    if (!this.events.isPickupValid(pickup)) {
+      this.addDelivered(site, load)
+      return
+    }
+
+    const job = this.jobManager.post({
+      type: 'hauling',
+      gridX: from.gridX,
+      gridY: from.gridY,
+      load,
+      dropoff: { gridX, gridY },
+      onDeliver: (delivered: CarriedLoad) => this.addDelivered(site, delivered),
+      onDone: (done: Job) => {
+        site.jobs.delete(done)
+        this.checkMaterials(site)
+      },
+      onCancel: (cancelled: Job) => {
+        site.jobs.delete(cancelled)
+        // A dropped load goes back to storage and is fetched again
+        if (site.cancelled) return
+        this.postHaul(site, pickup)
+        this.checkMaterials(site)
+      }
+    })
+    if (job) site.jobs.add(job)
+  }
+
+  private addDelivered(site: ConstructionSite, load: CarriedLoad): void {
+    site.delivered[load.resource] = (site.delivered[load.resource] ?? 0) + load.amount
+    this.drawProgress(site)
+  }
+
+  /**
+   * Once every material is on site, post the construction work
+   */
+  private checkMaterials(site: ConstructionSite): void {
+    if (site.cancelled || site.jobs.size > 0) return
+
+    const missing = (Object.entries(site.required) as [ResourceType, number][])
+      .some(([resource, amount]) => (site.delivered[resource] ?? 0) < amount)
+    if (missing) return
+
+    const duration = JOB_CONFIG.building.workDuration
+    const rounds = Math.ceil((site.workRequired - site.workDone) / duration)
+    if (rounds <= 0) {
+      this.complete(site)
+      return
+    }
+    for (let i = 0; i < rounds; i++) {
+      this.postWork(site)
+    }
+  }
+
+  private postWork(site: ConstructionSite): void {
+    const { gridX, gridY } = site.building
+    const job = this.jobManager.post({
+      type: 'building',
+      gridX,
+      gridY,
+      onDone: (done: Job) => {
+        site.jobs.delete(done)
+        site.workDone += JOB_CONFIG.building.workDuration
+        this.drawProgress(site)
+        if (site.jobs.size === 0) this.complete(site)
+      },
+      onCancel: (cancelled: Job) => {
+        site.jobs.delete(cancelled)
+        if (!site.cancelled) this.postWork(site)
+      }
+    })
+    if (job) site.jobs.add(job)
+  }
+
+  private complete(site: ConstructionSite): void {
+    this.removeSite(site)
+    site.building.constructed = true
+    site.building.sprite.setAlpha(1)
+
+    console.log(`${site.building.type} at (${site.building.gridX}, ${site.building.gridY}) finished`)
+    this.events.onComplete(site.building)
+  }
+
+  private removeSite(site: ConstructionSite): void {
+    site.scaffolding.destroy()
+    site.progressBar.destroy()
+    this.sites.delete(site.building)
+  }
+
+  /**
+   * Poles and planks in front of the faded building sprite
+   */
+  private drawScaffolding(site: ConstructionSite): void {
+    const sprite = site.building.sprite
+    const halfWidth = sprite.displayWidth * 0.4
+    const height = sprite.displayHeight * 0.8
+    const graphics = site.scaffolding
+
+    graphics.clear()
+    graphics.lineStyle(2, CONSTRUCTION_CONFIG.scaffoldColor, 1)
+
+    for (const dx of [-halfWidth, 0, halfWidth]) {
+      graphics.lineBetween(sprite.x + dx, sprite.y, sprite.x + dx, sprite.y - height)
+    }
+    for (const level of [1 / 3, 2 / 3, 1]) {
+      const y = sprite.y - height * level
+      graphics.lineBetween(sprite.x - halfWidth, y, sprite.x + halfWidth, y)
+    }
+    graphics.lineBetween(sprite.x - halfWidth, sprite.y, sprite.x, sprite.y - height / 3)
+
+    this.drawProgress(site)
+  }
+
+  private drawProgress(site: ConstructionSite): void {
+    const sprite = site.building.sprite
+    const { progressWidth: width, progressHeight: height } = CONSTRUCTION_CONFIG
+    const left = sprite.x - width / 2
+    const top = sprite.y - sprite.displayHeight - height * 2
+    const graphics = site.progressBar
+
+    graphics.clear()
+    graphics.fillStyle(CONSTRUCTION_CONFIG.progressBackground, 0.6)
+    graphics.fillRect(left, top, width, height)
+    graphics.fillStyle(CONSTRUCTION_CONFIG.progressColor, 1)
+    graphics.fillRect(left, top, width * this.getProgress(site), height)
+  }
+}
+
+function sumCost(cost: ResourceCost): number {
+  return Object.values(cost).reduce((total, amount) => total + (amount ?? 0), 0)
+}
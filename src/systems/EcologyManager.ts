@@ -0,0 +1,211 @@
+import { ECOLOGY_CONFIG, TerrainType } from '@/config/constants'
+import { BUILDING_DEFINITIONS, type ForestryDefinition } from '@/config/buildings'
+import { isTreeTerrain } from '@/utils/terrain'
+import type { SeededRandom } from '@/utils/random'
+import type { GridBounds } from './ChunkManager'
+import type { Building, GridPoint, Job, Profession, Villager } from '@/types/game'
+import type { JobManager } from './JobManager'
+
+export interface EcologyEvents {
+  getTerrain: (gridX: number, gridY: number) => TerrainType
+  setTerrain: (gridX: number, gridY: number, type: TerrainType) => void
+  isOccupied: (gridX: number, gridY: number) => boolean
+  getLoadedBounds: () => GridBounds | null
+  getDays: () => number
+  hireWorker: (building: Building, profession: Profession) => Villager | null
+}
+
+interface Growth {
+  gridX: number
+  gridY: number
+  species: TerrainType      // Forest type the sapling grows into
+  plantedAt: number         // Game day
+}
+
+interface Forester {
+  building: Building
+  definition: ForestryDefinition
+  worker: Villager | null
+  job: Job | null
+}
+
+// Eight neighbours of a tile
+const NEIGHBOURS = [[-1, -1], [0, -1], [1, -1], [-1, 0], [1, 0], [-1, 1], [0, 1], [1, 1]]
+
+/**
+ * EcologyManager
+ * Forests come back. Meadow next to forest seeds saplings, faster in a
+ * clearing surrounded by trees, and saplings grow through young forest into
+ * trees that can be cut again. Foresters' lodges plant saplings around them.
+ * Only loaded chunks are seeded; planted saplings grow wherever they are.
+ */
+export class EcologyManager {
+  private jobManager: JobManager
+  private random: SeededRandom
+  private events: EcologyEvents
+  private growing: Map<string, Growth> = new Map()
+  private foresters: Map<Building, Forester> = new Map()
+
+  constructor(jobManager: JobManager, random: SeededRandom, events: EcologyEvents) {
+    this.jobManager = jobManager
+    this.random = random
+    this.events = events
+  }
+
+  /**
+   * Plant a sapling that grows into the given forest type
+   */
+  public plant(gridX: number, gridY: number, species: TerrainType = TerrainType.FOREST): void {
+    this.events.setTerrain(gridX, gridY, TerrainType.SAPLING)
+    this.growing.set(`${gridX},${gridY}`, { gridX, gridY, species, plantedAt: this.events.getDays() })
+  }
+
+  public addForester(building: Building): void {
+    const definition = BUILDING_DEFINITIONS[building.type].forestry
+    if (!definition) return
+
+    this.foresters.set(building, { building, definition, worker: null, job: null })
+  }
+
+  /**
+   * The lodge is gone: stop planting
+   * @returns The forester let go, if there was one
+   */
+  public removeForester(building: Building): Villager | null {
+    const forester = this.foresters.get(building)
+    if (!forester) return null
+
+    if (forester.job) this.jobManager.cancel(forester.job)
+    if (forester.worker) forester.worker.workplace = null
+    this.foresters.delete(building)
+    return forester.worker
+  }
+
+  /**
+   * A forester left the village; the lodge hires again on the next update
+   */
+  public releaseWorker(villager: Villager): void {
+    const forester = villager.workplace ? this.foresters.get(villager.workplace) : undefined
+    if (!forester) return
+
+    villager.workplace = null
+    forester.worker = null
+    if (forester.job) this.jobManager.cancel(forester.job)
+  }
+
+  /**
+   * Grow what was planted, seed new saplings and give foresters work
+   */
+  public update(): void {
+    this.grow()
+    this.seed()
+    for (const forester of this.foresters.values()) {
+      this.updateForester(forester)
+    }
+  }
+
+  private grow(): void {
+    const days = this.events.getDays()
+    for (const [key, growth] of this.growing) {
+      const { gridX, gridY } = growth
+      const terrain = this.events.getTerrain(gridX, gridY)
+      // Cleared by something else in the meantime
+      if (terrain !== TerrainType.SAPLING && terrain !== TerrainType.YOUNG_FOREST) {
+        this.growing.delete(key)
+        continue
+      }
+
+      const age = days - growth.plantedAt
+      if (age >= ECOLOGY_CONFIG.matureDays) {
+        this.events.setTerrain(gridX, gridY, growth.species)
+        this.growing.delete(key)
+      } else if (age >= ECOLOGY_CONFIG.youngDays && terrain === TerrainType.SAPLING) {
+        this.events.setTerrain(gridX, gridY, TerrainType.YOUNG_FOREST)
+      }
+    }
+  }
+
+  /**
+   * Check a few random loaded tiles: meadow with trees around may seed
+   */
+  private seed(): void {
+    const bounds = this.events.getLoadedBounds()
+    if (!bounds) return
+
+    for (let i = 0; i < ECOLOGY_CONFIG.samplesPerTick; i++) {
+      const gridX = this.random.between(bounds.minX, bounds.maxX)
+      const gridY = this.random.between(bounds.minY, bounds.maxY)
+      if (this.events.getTerrain(gridX, gridY) !== TerrainType.MEADOW) continue
+      if (this.events.isOccupied(gridX, gridY)) continue
+
+      const trees = NEIGHBOURS
+        .map(([dx, dy]) => this.events.getTerrain(gridX + dx, gridY + dy))
+        .filter(isTreeTerrain)
+      if (trees.length === 0) continue
+
+      const chance = trees.length >= ECOLOGY_CONFIG.denseNeighbours
+        ? ECOLOGY_CONFIG.fillChance
+        : trees.length * ECOLOGY_CONFIG.seedChance
+      if (this.random.chance(chance)) {
+        this.plant(gridX, gridY, this.random.pick(trees))
+      }
+    }
+  }
+
+  private updateForester(forester: Forester): void {
+    if (!forester.worker) {
+      forester.worker = this.events.hireWorker(forester.building, forester.definition.profession)
+      if (forester.worker) forester.worker.workplace = forester.building
+    }
+    if (!forester.worker || forester.job) return
+
+    const { tended, free } = this.surveyPlot(forester)
+    if (tended >= forester.definition.maxGrowing || free.length === 0) return
+
+    const tile = this.random.pick(free)
+    forester.job = this.jobManager.post({
+      type: 'forestry',
+      gridX: tile.gridX,
+      gridY: tile.gridY,
+      claimSite: true,
+      worker: forester.worker,
+      onWorked: () => {
+        // Someone may have built here while the forester was walking over
+        if (this.isPlantable(tile.gridX, tile.gridY)) this.plant(tile.gridX, tile.gridY)
+      },
+      onDone: () => {
+        forester.job = null
+      },
+      onCancel: () => {
+        forester.job = null
+      }
+    })
+  }
+
+  /**
+   * Saplings and young trees around a lodge, and the meadow left to plant.
+   * The ring right next to the lodge is kept clear as its yard.
+   */
+  private surveyPlot(forester: Forester): { tended: number, free: GridPoint[] } {
+    const { building, definition } = forester
+    const size = BUILDING_DEFINITIONS[building.type].size
+    let tended = 0
+    const free: GridPoint[] = []
+
+    for (let gridY = building.gridY - definition.radius; gridY < building.gridY + size + definition.radius; gridY++) {
+      for (let gridX = building.gridX - definition.radius; gridX < building.gridX + size + definition.radius; gridX++) {
+        const terrain = this.events.getTerrain(gridX, gridY)
+        if (terrain === TerrainType.SAPLING || terrain === TerrainType.YOUNG_FOREST) tended++
+
+        const inYard = gridX >= building.gridX - 1 && gridX <= building.gridX + size &&
+          gridY >= building.gridY - 1 && gridY <= building.gridY + size
+        if (!inYard && this.isPlantable(gridX, gridY)) free.push({ gridX, gridY })
+      }
+    }
+    return { tended, free }
+  }
+
+  private isPlantable(gridX: number, gridY: number): boolean {
+    return this.events.getTerrain(gridX, gridY) === TerrainType.MEADOW && !this.events.isOccupied(gridX, gridY)
+  }
+}
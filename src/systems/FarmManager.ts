@@ -0,0 +1,205 @@
+import Phaser from 'phaser'
+import { ASSETS, FARM_CONFIG, TILE_WIDTH, TILE_HEIGHT, TerrainType } from '@/config/constants'
+import { BUILDING_DEFINITIONS, type FieldsDefinition } from '@/config/buildings'
+import { gridToScreen } from '@/utils/isometric'
+import type { Building, Job, Profession, ResourceType, Villager } from '@/types/game'
+import type { JobManager } from './JobManager'
+
+export interface FarmEvents {
+  getTerrain: (gridX: number, gridY: number) => TerrainType
+  setTerrain: (gridX: number, gridY: number, type: TerrainType) => void
+  isOccupied: (gridX: number, gridY: number) => boolean
+  getDays: () => number
+  hasStorageSpace: (resource: ResourceType) => boolean
+  hireWorker: (building: Building, profession: Profession) => Villager | null
+}
+
+interface Crop {
+  gridX: number
+  gridY: number
+  sownAt: number | null     // Game day of sowing, null while the field lies fallow
+  sprite: Phaser.GameObjects.Image | null
+  stage: number             // Index into ASSETS.CROPS, -1 without a sprite
+  job: Job | null
+}
+
+interface Farm {
+  building: Building
+  definition: FieldsDefinition
+  crops: Crop[]
+  worker: Villager | null
+}
+
+/**
+ * FarmManager
+ * A farm turns the meadow around it into fields. Its hired farmer sows each
+ * field tile, the crop grows over several game days (its sprite changes with
+ * each stage) and the ripe crop is harvested and carried to storage as food.
+ */
+export class FarmManager {
+  private scene: Phaser.Scene
+  private container: Phaser.GameObjects.Container
+  private jobManager: JobManager
+  private events: FarmEvents
+  private farms: Map<Building, Farm> = new Map()
+
+  constructor(scene: Phaser.Scene, container: Phaser.GameObjects.Container, jobManager: JobManager, events: FarmEvents) {
+    this.scene = scene
+    this.container = container
+    this.jobManager = jobManager
+    this.events = events
+  }
+
+  /**
+   * Plough the fields of a finished farm
+   */
+  public addFarm(building: Building): void {
+    const definition = BUILDING_DEFINITIONS[building.type].fields
+    if (!definition) return
+
+    const size = BUILDING_DEFINITIONS[building.type].size
+    const crops: Crop[] = []
+    for (let gridY = building.gridY - definition.radius; gridY < building.gridY + size + definition.radius; gridY++) {
+      for (let gridX = building.gridX - definition.radius; gridX < building.gridX + size + definition.radius; gridX++) {
+        // Only free meadow is ploughed; a neighbour's fields stay theirs
+        if (this.events.getTerrain(gridX, gridY) !== TerrainType.MEADOW) continue
+        if (this.events.isOccupied(gridX, gridY)) continue
+
+        this.events.setTerrain(gridX, gridY, TerrainType.FIELD)
+        crops.push({ gridX, gridY, sownAt: null, sprite: null, stage: -1, job: null })
+      }
+    }
+
+    this.farms.set(building, { building, definition, crops, worker: null })
+    console.log(`Farm at (${building.gridX}, ${building.gridY}) ploughed ${crops.length} fields`)
+  }
+
+  /**
+   * The farm is gone: its fields go back to meadow
+   * @returns The farmer let go, if there was one
+   */
+  public removeFarm(building: Building): Villager | null {
+    const farm = this.farms.get(building)
+    if (!farm) return null
+
+    for (const crop of farm.crops) {
+      if (crop.job) this.jobManager.cancel(crop.job)
+      crop.sprite?.destroy()
+      if (this.events.getTerrain(crop.gridX, crop.gridY) === TerrainType.FIELD) {
+        this.events.setTerrain(crop.gridX, crop.gridY, TerrainType.MEADOW)
+      }
+    }
+    if (farm.worker) farm.worker.workplace = null
+    this.farms.delete(building)
+    return farm.worker
+  }
+
+  /**
+   * A farmer left the village; the farm hires again on the next update
+   */
+  public releaseWorker(villager: Villager): void {
+    const farm = villager.workplace ? this.farms.get(villager.workplace) : undefined
+    if (!farm) return
+
+    villager.workplace = null
+    farm.worker = null
+    for (const crop of farm.crops) {
+      if (crop.job) this.jobManager.cancel(crop.job)
+    }
+  }
+
+  /**
+   * Grow crops and hand out sowing and harvest work
+   */
+  public update(): void {
+    const days = this.events.getDays()
+
+    for (const farm of this.farms.values()) {
+      if (!farm.worker) {
+        farm.worker = this.events.hireWorker(farm.building, farm.definition.profession)
+        if (farm.worker) farm.worker.workplace = farm.building
+      }
+
+      for (const crop of farm.crops) {
+        const growth = crop.sownAt === null ? null : (days - crop.sownAt) / FARM_CONFIG.growDays
+        this.showStage(crop, growth)
+
+        if (!farm.worker || crop.job) continue
+        if (growth === null) {
+          this.postSowing(farm, crop)
+        } else if (growth >= 1 && this.events.hasStorageSpace(FARM_CONFIG.harvest.resource)) {
+          this.postHarvest(farm, crop)
+        }
+      }
+    }
+  }
+
+  private postSowing(farm: Farm, crop: Crop): void {
+    crop.job = this.jobManager.post({
+      type: 'farming',
+      gridX: crop.gridX,
+      gridY: crop.gridY,
+      claimSite: true,
+      worker: farm.worker ?? undefined,
+      onWorked: () => {
+        crop.sownAt = this.events.getDays()
+      },
+      onDone: () => {
+        crop.job = null
+      },
+      onCancel: () => {
+        crop.job = null
+      }
+    })
+  }
+
+  private postHarvest(farm: Farm, crop: Crop): void {
+    crop.job = this.jobManager.post({
+      type: 'farming',
+      gridX: crop.gridX,
+      gridY: crop.gridY,
+      claimSite: true,
+      worker: farm.worker ?? undefined,
+      load: { ...FARM_CONFIG.harvest },
+      onWorked: () => {
+        crop.sownAt = null
+        this.showStage(crop, null)
+      },
+      onDone: () => {
+        crop.job = null
+      },
+      onCancel: () => {
+        crop.job = null
+      }
+    })
+  }
+
+  /**
+   * Swap the crop sprite when it reaches a new growth stage
+   * @param growth 0 at sowing, 1 when ripe; null for a fallow field
+   */
+  private showStage(crop: Crop, growth: number | null): void {
+    const lastStage = ASSETS.CROPS.length - 1
+    const stage = growth === null ? -1 : Math.min(lastStage, Math.floor(growth * lastStage))
+    if (stage === crop.stage) return
+    crop.stage = stage
+
+    if (stage < 0) {
+      crop.sprite?.destroy()
+      crop.sprite = null
+      return
+    }
+
+    if (!crop.sprite) {
+      // Stands on the tile like a tree does
+      const { x, y } = gridToScreen(crop.gridX, crop.gridY)
+      crop.sprite = this.scene.add.image(x, y + TILE_HEIGHT, ASSETS.CROPS[stage])
+      crop.sprite.setOrigin(0.5, 1)
+      crop.sprite.setScale((TILE_WIDTH * FARM_CONFIG.cropScale) / crop.sprite.width)
+      crop.sprite.setDepth(crop.sprite.y)
+      this.container.add(crop.sprite)
+    } else {
+      crop.sprite.setTexture(ASSETS.CROPS[stage])
+    }
+  }
+}
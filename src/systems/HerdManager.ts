@@ -0,0 +1,456 @@
+import Phaser from 'phaser'
+import { ANIMAL_SPECIES, TILE_WIDTH, TILE_HEIGHT, WILDLIFE_CONFIG, TerrainType } from '@/config/constants'
+import { BUILDING_DEFINITIONS, type HuntingDefinition } from '@/config/buildings'
+import { gridToScreen, screenToGrid } from '@/utils/isometric'
+import { isTreeTerrain } from '@/utils/terrain'
+import type { SeededRandom } from '@/utils/random'
+import type { GridBounds } from './ChunkManager'
+import type { Animal, AnimalSpecies, Building, GridPoint, Job, Profession, ResourceType, Villager } from '@/types/game'
+import type { JobManager } from './JobManager'
+
+export interface HerdEvents {
+  getTerrain: (gridX: number, gridY: number) => TerrainType
+  isWalkable: (gridX: number, gridY: number) => boolean
+  getLoadedBounds: () => GridBounds | null
+  findVillager: (gridX: number, gridY: number, radius: number) => Villager | null  // Nearest villager outdoors
+  hasStorageSpace: (resource: ResourceType) => boolean
+  hireWorker: (building: Building, profession: Profession) => Villager | null
+}
+
+interface Herd {
+  species: AnimalSpecies
+  animals: Animal[]
+  center: GridPoint         // Pasture the animals graze around
+  moveTimer: number         // ms until the herd moves on to a new pasture
+  breedTimer: number        // ms until the next birth
+  fleeTimer: number         // ms left running from a scare
+}
+
+interface Lodge {
+  building: Building
+  definition: HuntingDefinition
+  worker: Villager | null
+  job: Job | null
+}
+
+/**
+ * HerdManager
+ * Deer and boar live in herds at the forest edge. A herd grazes around its
+ * pasture and moves on every so often, bolts when a villager comes close,
+ * and grows while its forest area has room for more animals. Hunters'
+ * lodges send their hunter to shoot animals from a distance: the meat goes
+ * home with the hunter and the hides are left for haulers.
+ */
+export class HerdManager {
+  private scene: Phaser.Scene
+  private container: Phaser.GameObjects.Container
+  private jobManager: JobManager
+  private random: SeededRandom
+  private events: HerdEvents
+  private herds: Herd[] = []
+  private lodges: Map<Building, Lodge> = new Map()
+  private spawnTimer = 0
+
+  constructor(
+    scene: Phaser.Scene,
+    container: Phaser.GameObjects.Container,
+    jobManager: JobManager,
+    random: SeededRandom,
+    events: HerdEvents
+  ) {
+    this.scene = scene
+    this.container = container
+    this.jobManager = jobManager
+    this.random = random
+    this.events = events
+  }
+
+  public addLodge(building: Building): void {
+    const definition = BUILDING_DEFINITIONS[building.type].hunting
+    if (!definition) return
+
+    this.lodges.set(building, { building, definition, worker: null, job: null })
+  }
+
+  /**
+   * The lodge is gone: call off the hunt
+   * @returns The hunter let go, if there was one
+   */
+  public removeLodge(building: Building): Villager | null {
+    const lodge = this.lodges.get(building)
+    if (!lodge) return null
+
+    if (lodge.job) this.jobManager.cancel(lodge.job)
+    if (lodge.worker) lodge.worker.workplace = null
+    this.lodges.delete(building)
+    return lodge.worker
+  }
+
+  /**
+   * A hunter left the village; the lodge hires again on the next check
+   */
+  public releaseWorker(villager: Villager): void {
+    const lodge = villager.workplace ? this.lodges.get(villager.workplace) : undefined
+    if (!lodge) return
+
+    villager.workplace = null
+    lodge.worker = null
+    if (lodge.job) this.jobManager.cancel(lodge.job)
+  }
+
+  /**
+   * Move, scare and breed the herds, and bring in new ones (call every frame)
+   */
+  public update(delta: number): void {
+    this.spawnTimer += delta
+    if (this.spawnTimer >= WILDLIFE_CONFIG.spawnInterval) {
+      this.spawnTimer = 0
+      this.dropStrayHerds()
+      this.trySpawn()
+    }
+
+    for (const herd of this.herds) {
+      this.updateHerd(herd, delta)
+    }
+  }
+
+  /**
+   * Hire hunters and send them after game (call on a timer)
+   */
+  public updateLodges(): void {
+    for (const lodge of this.lodges.values()) {
+      if (!lodge.worker) {
+        lodge.worker = this.events.hireWorker(lodge.building, lodge.definition.profession)
+        if (lodge.worker) lodge.worker.workplace = lodge.building
+      }
+      if (!lodge.worker || lodge.job) continue
+      if (!this.events.hasStorageSpace('meat') || !this.events.hasStorageSpace('hides')) continue
+
+      this.postHunt(lodge, lodge.worker)
+    }
+  }
+
+  private updateHerd(herd: Herd, delta: number): void {
+    herd.fleeTimer = Math.max(0, herd.fleeTimer - delta)
+    herd.moveTimer -= delta
+    if (herd.moveTimer <= 0) {
+      this.movePasture(herd, this.pickPasture(herd.center, WILDLIFE_CONFIG.herdRoam))
+    }
+
+    herd.breedTimer -= delta
+    if (herd.breedTimer <= 0) {
+      herd.breedTimer = WILDLIFE_CONFIG.breedInterval
+      this.breed(herd)
+    }
+
+    for (const animal of herd.animals) {
+      if (herd.fleeTimer === 0) {
+        const { gridX, gridY } = this.getTile(animal.sprite)
+        const villager = this.events.findVillager(gridX, gridY, WILDLIFE_CONFIG.fleeRadius)
+        if (villager) {
+          this.scare(herd, this.getTile(villager.sprite))
+          break
+        }
+      }
+      this.updateAnimal(herd, animal, delta)
+    }
+  }
+
+  private updateAnimal(herd: Herd, animal: Animal, delta: number): void {
+    if (animal.state === 'grazing') {
+      animal.grazeTimer -= delta
+      if (animal.grazeTimer <= 0) this.wanderInHerd(herd, animal)
+      return
+    }
+
+    if (this.moveTowards(animal, animal.targetX, animal.targetY)) {
+      animal.state = 'grazing'
+      animal.speed = ANIMAL_SPECIES[animal.species].speed
+      animal.grazeTimer = this.random.range(WILDLIFE_CONFIG.grazeTime[0], WILDLIFE_CONFIG.grazeTime[1])
+    }
+  }
+
+  /**
+   * Take a few steps to another spot around the pasture
+   */
+  private wanderInHerd(herd: Herd, animal: Animal): void {
+    const spread = WILDLIFE_CONFIG.herdSpread
+    const gridX = herd.center.gridX + this.random.between(-spread, spread)
+    const gridY = herd.center.gridY + this.random.between(-spread, spread)
+    if (!this.events.isWalkable(gridX, gridY)) {
+      animal.grazeTimer = WILDLIFE_CONFIG.grazeTime[0]
+      return
+    }
+
+    const target = this.getFeetPosition(gridX, gridY)
+    animal.targetX = target.x + this.random.range(-TILE_WIDTH / 4, TILE_WIDTH / 4)
+    animal.targetY = target.y
+    animal.state = 'walking'
+  }
+
+  /**
+   * The whole herd runs off, away from whatever scared it
+   */
+  private scare(herd: Herd, from: GridPoint): void {
+    const awayX = Math.sign(herd.center.gridX - from.gridX) || this.random.pick([-1, 1])
+    const awayY = Math.sign(herd.center.gridY - from.gridY) || this.random.pick([-1, 1])
+    const refuge = this.pickPasture({
+      gridX: herd.center.gridX + awayX * WILDLIFE_CONFIG.fleeDistance,
+      gridY: herd.center.gridY + awayY * WILDLIFE_CONFIG.fleeDistance
+    }, WILDLIFE_CONFIG.herdSpread)
+
+    herd.fleeTimer = WILDLIFE_CONFIG.fleeTime
+    this.movePasture(herd, refuge, ANIMAL_SPECIES[herd.species].fleeSpeed)
+  }
+
+  private movePasture(herd: Herd, center: GridPoint, speed: number = ANIMAL_SPECIES[herd.species].speed): void {
+    herd.center = center
+    herd.moveTimer = this.random.range(WILDLIFE_CONFIG.herdMoveTime[0], WILDLIFE_CONFIG.herdMoveTime[1])
+    for (const animal of herd.animals) {
+      this.wanderInHerd(herd, animal)
+      animal.speed = speed
+    }
+  }
+
+  /**
+   * A grazing tile near a point, or the point itself when none turns up
+   */
+  private pickPasture(near: GridPoint, radius: number): GridPoint {
+    for (let attempt = 0; attempt < 8; attempt++) {
+      const gridX = near.gridX + this.random.between(-radius, radius)
+      const gridY = near.gridY + this.random.between(-radius, radius)
+      if (this.isPasture(gridX, gridY)) return { gridX, gridY }
+    }
+    return near
+  }
+
+  private isPasture(gridX: number, gridY: number): boolean {
+    return WILDLIFE_CONFIG.grazing.includes(this.events.getTerrain(gridX, gridY)) && this.events.isWalkable(gridX, gridY)
+  }
+
+  /**
+   * One more animal, while the herd's forest area can feed it
+   */
+  private breed(herd: Herd): void {
+    if (herd.animals.length < 2) return
+
+    const areaX = Math.floor(herd.center.gridX / WILDLIFE_CONFIG.areaSize)
+    const areaY = Math.floor(herd.center.gridY / WILDLIFE_CONFIG.areaSize)
+    const population = this.herds
+      .filter(other => Math.floor(other.center.gridX / WILDLIFE_CONFIG.areaSize) === areaX &&
+        Math.floor(other.center.gridY / WILDLIFE_CONFIG.areaSize) === areaY)
+      .reduce((sum, other) => sum + other.animals.length, 0)
+    if (population >= this.getAreaCapacity(areaX, areaY)) return
+
+    const parent = this.random.pick(herd.animals)
+    herd.animals.push(this.createAnimal(herd.species, parent.sprite.x, parent.sprite.y))
+    console.log(`A young ${herd.species} was born at (${herd.center.gridX}, ${herd.center.gridY})`)
+  }
+
+  /**
+   * Animals a forest area can feed, by how much of it is forest
+   */
+  private getAreaCapacity(areaX: number, areaY: number): number {
+    const size = WILDLIFE_CONFIG.areaSize
+    let trees = 0
+    for (let gridY = areaY * size; gridY < (areaY + 1) * size; gridY++) {
+      for (let gridX = areaX * size; gridX < (areaX + 1) * size; gridX++) {
+        if (isTreeTerrain(this.events.getTerrain(gridX, gridY))) trees++
+      }
+    }
+    return Math.min(WILDLIFE_CONFIG.maxPerArea, Math.floor(trees / WILDLIFE_CONFIG.treesPerAnimal))
+  }
+
+  /**
+   * Herds that wandered out of the loaded world are gone for good
+   */
+  private dropStrayHerds(): void {
+    const bounds = this.events.getLoadedBounds()
+    if (!bounds) return
+
+    this.herds = this.herds.filter(herd => {
+      const { gridX, gridY } = herd.center
+      if (gridX >= bounds.minX && gridX <= bounds.maxX && gridY >= bounds.minY && gridY <= bounds.maxY) return true
+      herd.animals.forEach(animal => animal.sprite.destroy())
+      herd.animals = [] // A hunt already posted now misses
+      return false
+    })
+  }
+
+  /**
+   * A new herd shows up on pasture at the forest edge, away from villagers
+   */
+  private trySpawn(): void {
+    if (this.herds.length >= WILDLIFE_CONFIG.maxHerds) return
+    const bounds = this.events.getLoadedBounds()
+    if (!bounds) return
+
+    for (let i = 0; i < WILDLIFE_CONFIG.spawnSamples; i++) {
+      const gridX = this.random.between(bounds.minX, bounds.maxX)
+      const gridY = this.random.between(bounds.minY, bounds.maxY)
+      if (!this.isPasture(gridX, gridY) || !this.isForestEdge(gridX, gridY)) continue
+      if (this.events.findVillager(gridX, gridY, WILDLIFE_CONFIG.fleeDistance)) continue
+
+      this.spawnHerd(this.random.pick(Object.keys(ANIMAL_SPECIES) as AnimalSpecies[]), { gridX, gridY })
+      return
+    }
+  }
+
+  private isForestEdge(gridX: number, gridY: number): boolean {
+    let trees = 0
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        if (isTreeTerrain(this.events.getTerrain(gridX + dx, gridY + dy))) trees++
+      }
+    }
+    return trees >= WILDLIFE_CONFIG.forestEdge
+  }
+
+  private spawnHerd(species: AnimalSpecies, center: GridPoint): void {
+    const [minSize, maxSize] = ANIMAL_SPECIES[species].herdSize
+    const { x, y } = this.getFeetPosition(center.gridX, center.gridY)
+    const herd: Herd = {
+      species,
+      animals: [],
+      center,
+      moveTimer: this.random.range(WILDLIFE_CONFIG.herdMoveTime[0], WILDLIFE_CONFIG.herdMoveTime[1]),
+      breedTimer: WILDLIFE_CONFIG.breedInterval,
+      fleeTimer: 0
+    }
+    for (let i = this.random.between(minSize, maxSize); i > 0; i--) {
+      herd.animals.push(this.createAnimal(species, x + this.random.range(-TILE_WIDTH / 2, TILE_WIDTH / 2), y))
+    }
+    this.herds.push(herd)
+    console.log(`A herd of ${herd.animals.length} ${species} appeared at (${center.gridX}, ${center.gridY})`)
+  }
+
+  private createAnimal(species: AnimalSpecies, x: number, y: number): Animal {
+    const config = ANIMAL_SPECIES[species]
+    const sprite = this.scene.add.image(x, y, config.texture)
+    sprite.setOrigin(0.5, 1)
+    sprite.setScale((TILE_WIDTH * config.scale) / sprite.width)
+    sprite.setFlipX(this.random.chance(0.5))
+    sprite.setDepth(sprite.y)
+    this.container.add(sprite)
+
+    return {
+      sprite,
+      species,
+      state: 'grazing',
+      targetX: x,
+      targetY: y,
+      speed: config.speed,
+      grazeTimer: this.random.range(WILDLIFE_CONFIG.grazeTime[0], WILDLIFE_CONFIG.grazeTime[1])
+    }
+  }
+
+  /**
+   * Send the lodge's hunter to take aim at the nearest animal in its grounds
+   */
+  private postHunt(lodge: Lodge, worker: Villager): void {
+    const size = BUILDING_DEFINITIONS[lodge.building.type].size
+    const lodgeX = lodge.building.gridX + size / 2
+    const lodgeY = lodge.building.gridY + size / 2
+
+    let prey: { herd: Herd, animal: Animal, tile: GridPoint } | null = null
+    let bestDistance: number = lodge.definition.radius
+    for (const herd of this.herds) {
+      for (const animal of herd.animals) {
+        const tile = this.getTile(animal.sprite)
+        const distance = Math.hypot(tile.gridX - lodgeX, tile.gridY - lodgeY)
+        if (distance <= bestDistance) {
+          prey = { herd, animal, tile }
+          bestDistance = distance
+        }
+      }
+    }
+    if (!prey) return
+
+    // Stand off towards the lodge, out of the herd's sight
+    const stand = Math.min(WILDLIFE_CONFIG.huntRange, bestDistance) / Math.max(bestDistance, 1)
+    const site = {
+      gridX: Math.round(prey.tile.gridX + (lodgeX - prey.tile.gridX) * stand),
+      gridY: Math.round(prey.tile.gridY + (lodgeY - prey.tile.gridY) * stand)
+    }
+    if (!this.events.isWalkable(site.gridX, site.gridY)) return
+
+    const { herd, animal } = prey
+    const species = ANIMAL_SPECIES[animal.species]
+    lodge.job = this.jobManager.post({
+      type: 'hunting',
+      gridX: site.gridX,
+      gridY: site.gridY,
+      worker,
+      load: { resource: 'meat', amount: species.meat },
+      onWorked: (job: Job) => {
+        // The animal may have run off, or be gone: shot by another hunter or dropped with its herd
+        const target = this.getTile(animal.sprite)
+        const inRange = herd.animals.includes(animal) &&
+          Math.hypot(target.gridX - site.gridX, target.gridY - site.gridY) <= WILDLIFE_CONFIG.shotRange
+
+        if (inRange) {
+          this.kill(herd, animal)
+          if (this.events.hasStorageSpace('hides')) {
+            this.jobManager.post({ type: 'hauling', gridX: target.gridX, gridY: target.gridY, load: { resource: 'hides', amount: species.hides } })
+          }
+          console.log(`Hunter shot a ${animal.species} at (${target.gridX}, ${target.gridY})`)
+        } else {
+          job.load = undefined
+          console.log('Hunter missed, the game got away')
+        }
+        if (this.herds.includes(herd)) this.scare(herd, site)
+      },
+      onDone: () => {
+        lodge.job = null
+      },
+      onCancel: () => {
+        lodge.job = null
+      }
+    })
+  }
+
+  private kill(herd: Herd, animal: Animal): void {
+    herd.animals = herd.animals.filter(other => other !== animal)
+    animal.sprite.destroy()
+    if (herd.animals.length === 0) {
+      this.herds = this.herds.filter(other => other !== herd)
+    }
+  }
+
+  /**
+   * Step towards a point around water and buildings' edges
+   * @returns True once there, or when the way is blocked
+   */
+  private moveTowards(animal: Animal, x: number, y: number): boolean {
+    const dx = x - animal.sprite.x
+    const dy = y - animal.sprite.y
+    const distance = Math.sqrt(dx * dx + dy * dy)
+    if (distance <= animal.speed) {
+      animal.sprite.setPosition(x, y)
+      animal.sprite.setDepth(animal.sprite.y)
+      return true
+    }
+
+    const nextX = animal.sprite.x + (dx / distance) * animal.speed
+    const nextY = animal.sprite.y + (dy / distance) * animal.speed
+    const next = this.getTile({ x: nextX, y: nextY })
+    if (!this.events.isWalkable(next.gridX, next.gridY)) return true
+
+    animal.sprite.setPosition(nextX, nextY)
+    animal.sprite.setFlipX(dx < 0)
+    animal.sprite.setDepth(animal.sprite.y) // Same depth-by-Y rule as villagers
+    return false
+  }
+
+  /**
+   * Tile under a sprite's feet (sprites stand one tile height below the tile centre)
+   */
+  private getTile(position: { x: number, y: number }): GridPoint {
+    return screenToGrid(position.x, position.y - TILE_HEIGHT)
+  }
+
+  private getFeetPosition(gridX: number, gridY: number): { x: number, y: number } {
+    const { x, y } = gridToScreen(gridX + 0.5, gridY + 0.5)
+    return { x, y: y + TILE_HEIGHT }
+  }
+}
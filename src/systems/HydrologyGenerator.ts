@@ -0,0 +1,313 @@
+import { TerrainType, TERRAIN_CONFIG, HYDROLOGY_CONFIG } from '@/config/constants'
+import type { TerrainGenerator } from './TerrainGenerator'
+import { deriveSeed, hash2D } from '@/utils/random'
+
+interface GridPoint {
+  gridX: number
+  gridY: number
+}
+
+interface RiverStep extends GridPoint {
+  amount: number   // Flow this spring contributes to the tile
+  dirX: number     // Flow direction (used for widening)
+  dirY: number
+}
+
+interface RiverTrace {
+  steps: RiverStep[]
+  lakes: GridPoint[]
+  // Bounding box (including widening), to skip traces far from a chunk
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+}
+
+// 4-neighbourhood keeps rivers continuous on the diamond grid (no corner-only joins)
+const NEIGHBOURS: ReadonlyArray<[number, number]> = [[1, 0], [-1, 0], [0, 1], [0, -1]]
+
+/**
+ * HydrologyGenerator
+ * Drainage pass run after biome generation. Springs on high ground send water
+ * downhill along the elevation layer; pits fill into lakes until they spill
+ * over, and every tile remembers how much water has passed through it.
+ * Flow decides whether a tile becomes a stream, a river, or a wide river.
+ *
+ * The world is unbounded, so rivers are carved per chunk: each spring's trace
+ * is a pure function of the seed and cached, and a chunk sums the traces of
+ * every spring close enough to reach it. Chunks can therefore be generated in
+ * any order and rivers still line up across chunk borders.
+ */
+export class HydrologyGenerator {
+  private generator: TerrainGenerator
+  private springSeed: number
+  private traces: Map<string, RiverTrace | null> = new Map() // Spring cell "x,y" -> trace
+
+  constructor(generator: TerrainGenerator, seed: number) {
+    this.generator = generator
+    this.springSeed = deriveSeed(seed, 20)
+  }
+
+  /**
+   * Carve rivers and lakes into one chunk of generated terrain (in place)
+   * @param originX Grid X of the chunk's first tile
+   * @param originY Grid Y of the chunk's first tile
+   * @param size Chunk size in tiles
+   * @param terrain Row-major terrain of the chunk
+   */
+  public carveChunk(originX: number, originY: number, size: number, terrain: TerrainType[]): void {
+    const flow: Map<string, RiverStep> = new Map()
+    const lakes: Set<string> = new Set()
+
+    // Any spring within reach may send water into this chunk; each lake on
+    // the way can carry the river at most its own size further
+    const reach = HYDROLOGY_CONFIG.maxRiverLength + HYDROLOGY_CONFIG.maxLakesPerRiver * HYDROLOGY_CONFIG.maxLakeSize + 2
+    const spacing = HYDROLOGY_CONFIG.springSpacing
+    const minCellX = Math.floor((originX - reach) / spacing)
+    const maxCellX = Math.floor((originX + size + reach) / spacing)
+    const minCellY = Math.floor((originY - reach) / spacing)
+    const maxCellY = Math.floor((originY + size + reach) / spacing)
+
+    for (let cellY = minCellY; cellY <= maxCellY; cellY++) {
+      for (let cellX = minCellX; cellX <= maxCellX; cellX++) {
+        const trace = this.getTrace(cellX, cellY)
+        if (!trace) continue
+        if (trace.maxX < originX || trace.minX >= originX + size || trace.maxY < originY || trace.minY >= originY + size) continue
+
+        for (const lake of trace.lakes) {
+          lakes.add(`${lake.gridX},${lake.gridY}`)
+        }
+        for (const step of trace.steps) {
+          // One tile of margin: rivers just outside can widen into the chunk
+          if (step.gridX < originX - 1 || step.gridX > originX + size || step.gridY < originY - 1 || step.gridY > originY + size) continue
+          const key = `${step.gridX},${step.gridY}`
+          const existing = flow.get(key)
+          if (existing) {
+            existing.amount += step.amount
+          } else {
+            flow.set(key, { ...step })
+          }
+        }
+      }
+    }
+
+    const setTile = (gridX: number, gridY: number, type: TerrainType): void => {
+      const localX = gridX - originX
+      const localY = gridY - originY
+      if (localX < 0 || localX >= size || localY < 0 || localY >= size) return
+      terrain[localY * size + localX] = type
+    }
+
+    // Lakes first, so rivers drawn afterwards keep their channel through them
+    for (const key of lakes) {
+      const [gridX, gridY] = key.split(',').map(Number)
+      setTile(gridX, gridY, TerrainType.WATER)
+    }
+
+    const setWater = (gridX: number, gridY: number, amount: number): void => {
+      const localX = gridX - originX
+      const localY = gridY - originY
+      if (localX < 0 || localX >= size || localY < 0 || localY >= size) return
+      if (lakes.has(`${gridX},${gridY}`)) return
+      const current = terrain[localY * size + localX]
+      if (current === TerrainType.WATER || current === TerrainType.RIVER) return
+      setTile(gridX, gridY, amount < HYDROLOGY_CONFIG.streamMaxFlow ? TerrainType.STREAM : TerrainType.RIVER)
+    }
+
+    for (const step of flow.values()) {
+      setWater(step.gridX, step.gridY, step.amount)
+
+      // Widen perpendicular to the flow direction as the river grows
+      if (step.amount >= HYDROLOGY_CONFIG.widenFlow) {
+        setWater(step.gridX - step.dirY, step.gridY + step.dirX, step.amount)
+      }
+      if (step.amount >= HYDROLOGY_CONFIG.widenFlowWide) {
+        setWater(step.gridX + step.dirY, step.gridY - step.dirX, step.amount)
+      }
+    }
+  }
+
+  /**
+   * Cached river trace for a spring lattice cell (null = no spring there)
+   */
+  private getTrace(cellX: number, cellY: number): RiverTrace | null {
+    const cellKey = `${cellX},${cellY}`
+    if (this.traces.has(cellKey)) {
+      return this.traces.get(cellKey) ?? null
+    }
+
+    const spring = this.findSpring(cellX, cellY)
+    const trace = spring ? this.traceRiver(spring) : null
+    this.traces.set(cellKey, trace)
+    return trace
+  }
+
+  /**
+   * One jittered spring candidate per lattice cell, kept only on high ground
+   */
+  private findSpring(cellX: number, cellY: number): GridPoint | null {
+    if (hash2D(cellX, cellY, this.springSeed) >= HYDROLOGY_CONFIG.springChance) return null
+
+    const spacing = HYDROLOGY_CONFIG.springSpacing
+    const gridX = cellX * spacing + Math.floor(hash2D(cellX, cellY, this.springSeed + 1) * spacing)
+    const gridY = cellY * spacing + Math.floor(hash2D(cellX, cellY, this.springSeed + 2) * spacing)
+
+    const elevation = this.generator.getElevation(gridX, gridY)
+    return elevation >= HYDROLOGY_CONFIG.springElevation ? { gridX, gridY } : null
+  }
+
+  /**
+   * Follow the steepest descent from a spring until the water reaches
+   * a lake or sea, dries up, or ends in a pit too large to fill (or in its
+   * last allowed lake)
+   */
+  private traceRiver(spring: GridPoint): RiverTrace {
+    const elevationCache: Map<string, number> = new Map()
+    const elevation = (gridX: number, gridY: number): number => {
+      const key = `${gridX},${gridY}`
+      let value = elevationCache.get(key)
+      if (value === undefined) {
+        value = this.generator.getElevation(gridX, gridY)
+        elevationCache.set(key, value)
+      }
+      return value
+    }
+
+    const trace: RiverTrace = {
+      steps: [],
+      lakes: [],
+      minX: spring.gridX - 1,
+      minY: spring.gridY - 1,
+      maxX: spring.gridX + 1,
+      maxY: spring.gridY + 1
+    }
+    const include = (point: GridPoint): void => {
+      trace.minX = Math.min(trace.minX, point.gridX - 1)
+      trace.minY = Math.min(trace.minY, point.gridY - 1)
+      trace.maxX = Math.max(trace.maxX, point.gridX + 1)
+      trace.maxY = Math.max(trace.maxY, point.gridY + 1)
+    }
+
+    const visited: Set<string> = new Set()
+    let current = spring
+    let amount = 1
+    let lakeCount = 0
+
+    for (let step = 0; step < HYDROLOGY_CONFIG.maxRiverLength; step++) {
+      visited.add(`${current.gridX},${current.gridY}`)
+
+      let next = this.lowestNeighbour(current, visited, elevation)
+
+      if (!next || elevation(next.gridX, next.gridY) >= elevation(current.gridX, current.gridY)) {
+        // Pit: fill it into a lake and continue from where it spills over
+        const lake = this.fillLake(current, visited, elevation)
+        for (const tile of lake.tiles) {
+          trace.lakes.push(tile)
+          include(tile)
+        }
+        if (lake.tiles.length > 0) lakeCount++
+        if (!lake.spill || lakeCount >= HYDROLOGY_CONFIG.maxLakesPerRiver) break
+        next = lake.spill
+      }
+
+      trace.steps.push({
+        gridX: current.gridX,
+        gridY: current.gridY,
+        amount,
+        dirX: next.gridX - current.gridX,
+        dirY: next.gridY - current.gridY
+      })
+      include(current)
+      amount += HYDROLOGY_CONFIG.flowPerTile
+
+      // Into a lake or sea: the river ends here
+      if (elevation(next.gridX, next.gridY) < TERRAIN_CONFIG.waterThreshold) break
+
+      current = next
+    }
+
+    return trace
+  }
+
+  /**
+   * Priority flood from a pit. Tiles are added to the lake lowest-first;
+   * the first frontier tile below the water level is where the lake drains.
+   * @returns Lake tiles and the spill tile (null if the lake hit the size limit)
+   */
+  private fillLake(
+    pit: GridPoint,
+    visited: Set<string>,
+    elevation: (gridX: number, gridY: number) => number
+  ): { tiles: GridPoint[], spill: GridPoint | null } {
+    const lake: GridPoint[] = [pit]
+    const frontier: GridPoint[] = []
+    const queued: Set<string> = new Set([`${pit.gridX},${pit.gridY}`])
+    let level = elevation(pit.gridX, pit.gridY)
+
+    const enqueueNeighbours = (point: GridPoint): void => {
+      for (const [dx, dy] of NEIGHBOURS) {
+        const neighbour = { gridX: point.gridX + dx, gridY: point.gridY + dy }
+        const key = `${neighbour.gridX},${neighbour.gridY}`
+        if (queued.has(key) || visited.has(key)) continue
+        queued.add(key)
+        frontier.push(neighbour)
+      }
+    }
+    enqueueNeighbours(pit)
+
+    while (frontier.length > 0 && lake.length < HYDROLOGY_CONFIG.maxLakeSize) {
+      // Pop the lowest frontier tile (lakes are small, a linear scan is enough)
+      let lowestIndex = 0
+      for (let i = 1; i < frontier.length; i++) {
+        if (elevation(frontier[i].gridX, frontier[i].gridY) < elevation(frontier[lowestIndex].gridX, frontier[lowestIndex].gridY)) {
+          lowestIndex = i
+        }
+      }
+      const tile = frontier.splice(lowestIndex, 1)[0]
+      const tileElevation = elevation(tile.gridX, tile.gridY)
+
+      if (tileElevation < level) {
+        // Water spills out here
+        return { tiles: this.commitLake(lake, visited), spill: tile }
+      }
+
+      level = tileElevation
+      lake.push(tile)
+      enqueueNeighbours(tile)
+    }
+
+    // Endorheic lake: the river ends in it
+    return { tiles: this.commitLake(lake, visited), spill: null }
+  }
+
+  private commitLake(lake: GridPoint[], visited: Set<string>): GridPoint[] {
+    // A single-tile pit is just a bend in the river, not a lake
+    if (lake.length < 2) return []
+    for (const tile of lake) {
+      visited.add(`${tile.gridX},${tile.gridY}`)
+    }
+    return lake
+  }
+
+  private lowestNeighbour(
+    point: GridPoint,
+    visited: Set<string>,
+    elevation: (gridX: number, gridY: number) => number
+  ): GridPoint | null {
+    let lowest: GridPoint | null = null
+    let lowestElevation = Infinity
+
+    for (const [dx, dy] of NEIGHBOURS) {
+      const gridX = point.gridX + dx
+      const gridY = point.gridY + dy
+      if (visited.has(`${gridX},${gridY}`)) continue
+      const value = elevation(gridX, gridY)
+      if (value < lowestElevation) {
+        lowest = { gridX, gridY }
+        lowestElevation = value
+      }
+    }
+
+    return lowest
+  }
+}
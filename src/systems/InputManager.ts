@@ -16,6 +16,7 @@ export class InputManager {
   private dragStartX = 0
   private dragStartY = 0
   private dragMoved = false
+  private dragEnabled = true // Off while a tool uses drags itself
 
   constructor(scene: Phaser.Scene) {
     this.scene = scene
@@ -51,7 +52,7 @@ export class InputManager {
 
       console.log('Pointer Down:', pointer.x, pointer.y, 'In UI Area:', inUIArea)
 
-      if (inUIArea) return
+      if (inUIArea || !this.dragEnabled) return
 
       this.isDragging = true
       this.dragMoved = false
@@ -99,6 +100,14 @@ export class InputManager {
     }
   }
 
+  /**
+   * Let dragging move the camera, or leave drags to a tool
+   */
+  public setCameraDrag(enabled: boolean): void {
+    this.dragEnabled = enabled
+    this.isDragging = false
+  }
+
   public get isDragMoved(): boolean {
     return this.dragMoved
   }
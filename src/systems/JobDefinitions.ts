@@ -0,0 +1,86 @@
+import { JOB_CONFIG } from '@/config/jobs'
+import type { CarriedLoad, GridPoint, Job, JobRequest, JobType, ResourceType, Villager, WorkTileKind } from '@/types/game'
+
+/**
+ * What jobs may ask of the game world
+ */
+export interface JobContext {
+  getVillagerTile: (villager: Villager) => GridPoint
+  findWorkTile: (kind: WorkTileKind, fromX: number, fromY: number) => GridPoint | null  // Nearest unclaimed
+  isWorkTile: (kind: WorkTileKind, gridX: number, gridY: number) => boolean
+  cutTree: (gridX: number, gridY: number) => void
+  quarryRock: (gridX: number, gridY: number) => void
+  hasStorageSpace: (resource: ResourceType) => boolean
+}
+
+/**
+ * Behaviour of one kind of work
+ * Timing, priority and professions come from JOB_CONFIG.
+ */
+export interface JobDefinition {
+  /** Find work for an idle worker (work nobody posts to the queue) */
+  find?: (context: JobContext, villager: Villager) => JobRequest | null
+  /** Checked on arrival: false abandons the job (e.g. the tree is gone) */
+  canWork?: (context: JobContext, job: Job) => boolean
+  /** Work is done: change the world, return what the worker carries away */
+  complete: (context: JobContext, job: Job) => CarriedLoad | null
+}
+
+/**
+ * Self-directed work at the nearest unclaimed tile of a kind
+ * Stalls while no storage has room for what it produces.
+ */
+function tileJob(type: JobType, kind: WorkTileKind, complete?: (context: JobContext, job: Job) => void): JobDefinition {
+  return {
+    find: (context, villager) => {
+      const output = JOB_CONFIG[type].yield
+      if (output && !context.hasStorageSpace(output.resource)) return null
+
+      const from = context.getVillagerTile(villager)
+      const tile = context.findWorkTile(kind, from.gridX, from.gridY)
+      return tile ? { type, gridX: tile.gridX, gridY: tile.gridY, claimSite: true } : null
+    },
+    canWork: (context, job) => context.isWorkTile(kind, job.gridX, job.gridY),
+    complete: (context, job) => {
+      complete?.(context, job)
+      const load = JOB_CONFIG[type].yield
+      return load ? { ...load } : null
+    }
+  }
+}
+
+export const JOB_DEFINITIONS: Record<JobType, JobDefinition> = {
+  woodcutting: tileJob('woodcutting', 'tree', (context, job) => context.cutTree(job.gridX, job.gridY)),
+  gathering: tileJob('gathering', 'forage'),
+  quarrying: tileJob('quarrying', 'rocks', (context, job) => context.quarryRock(job.gridX, job.gridY)),
+
+  // Posted by whoever needs something moved; the load is picked up at the site
+  hauling: {
+    complete: (_context, job) => job.load ? { ...job.load } : null
+  },
+
+  // Posted by construction; the effect is applied through onDone
+  building: {
+    complete: () => null
+  },
+
+  // Posted by production buildings; inputs and outputs are handled through onDone
+  production: {
+    complete: () => null
+  },
+
+  // Posted by farms; a harvest carries its crop to storage
+  farming: {
+    complete: (_context, job) => job.load ? { ...job.load } : null
+  },
+
+  // Posted by foresters' lodges; the sapling is planted through onWorked
+  forestry: {
+    complete: () => null
+  },
+
+  // Posted by hunters' lodges; a hit carries the meat home (a miss clears the load in onWorked)
+  hunting: {
+    complete: (_context, job) => job.load ? { ...job.load } : null
+  }
+}
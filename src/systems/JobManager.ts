@@ -0,0 +1,270 @@
+import { JOB_CONFIG } from '@/config/jobs'
+import type { CarriedLoad, GridPoint, Job, JobRequest, JobType, Profession, Villager } from '@/types/game'
+import { JOB_DEFINITIONS, type JobContext } from './JobDefinitions'
+import { WorkReservations } from './WorkReservations'
+
+/**
+ * What the job manager needs from the scene on top of the job context
+ */
+export interface JobWorld extends JobContext {
+  walkTo: (villager: Villager, gridX: number, gridY: number) => boolean  // False = no path
+  wander: (villager: Villager) => void
+  findDropoff: (load: CarriedLoad, from: GridPoint) => GridPoint | null  // Nearest storage with space
+  deliver: (load: CarriedLoad, at: GridPoint) => number  // Returns the amount that did not fit
+}
+
+// Job types sorted by default priority, highest first
+const JOB_TYPES_BY_PRIORITY = (Object.keys(JOB_CONFIG) as JobType[])
+  .sort((a, b) => JOB_CONFIG[b].priority - JOB_CONFIG[a].priority)
+
+/**
+ * JobManager
+ * Hands out work to villagers. Jobs posted to the global queue (building,
+ * hauling) are taken first, highest priority and nearest first; otherwise a
+ * worker looks for work of their own profession (a tree to cut, berries to
+ * pick). Every job follows the same lifecycle: walk to the site, work,
+ * carry the result back. What happens at each step is defined per job type
+ * in JOB_DEFINITIONS, so new work needs no changes here.
+ */
+export class JobManager {
+  private world: JobWorld
+  private queue: Job[] = []
+  private reservations: WorkReservations<Job> = new WorkReservations() // Job sites being worked on
+  private nextId = 1
+
+  constructor(world: JobWorld) {
+    this.world = world
+  }
+
+  /**
+   * Add a job to the global work queue
+   * @returns The job, or null if its site is already claimed
+   */
+  public post(request: JobRequest): Job | null {
+    const job = this.createJob(request, true)
+    if (!job) return null
+    this.queue.push(job)
+    console.log(`Job posted: ${JOB_CONFIG[job.type].label} at (${job.gridX}, ${job.gridY})`)
+    return job
+  }
+
+  /**
+   * Remove a job wherever it is (queued or in progress)
+   */
+  public cancel(job: Job): void {
+    this.queue = this.queue.filter(queued => queued !== job)
+    this.reservations.release(job)
+
+    const villager = job.assignee
+    if (villager) {
+      villager.job = null
+      villager.carrying = null
+      villager.state = 'idle'
+      job.assignee = null
+    }
+    job.onCancel?.(job)
+  }
+
+  /**
+   * The villager gives up their job. Posted jobs go back to the queue.
+   */
+  public abandon(villager: Villager): void {
+    const job = villager.job
+    if (!job) return
+
+    if (job.posted && job.stage === 'toSite') {
+      villager.job = null
+      villager.state = 'idle'
+      job.assignee = null
+      this.queue.push(job)
+    } else {
+      this.cancel(job)
+    }
+  }
+
+  public setProfession(villager: Villager, profession: Profession | null): void {
+    villager.profession = profession
+    if (villager.job && !this.canDo(villager, villager.job.type)) {
+      this.abandon(villager)
+    }
+  }
+
+  public isTileClaimed(gridX: number, gridY: number): boolean {
+    return this.reservations.isClaimed(gridX, gridY)
+  }
+
+  public getQueue(): ReadonlyArray<Job> {
+    return this.queue
+  }
+
+  /**
+   * Find work for idle villagers and advance work in progress
+   */
+  public update(villager: Villager, delta: number): void {
+    const job = villager.job
+    if (!job) {
+      if (villager.state === 'idle') this.assign(villager)
+      return
+    }
+
+    if (job.stage === 'working') {
+      job.workTimer += delta
+      if (job.workTimer >= (job.workDuration ?? JOB_CONFIG[job.type].workDuration)) {
+        this.finishWork(villager, job)
+      }
+    }
+  }
+
+  /**
+   * The villager reached the end of their path
+   */
+  public onArrive(villager: Villager): void {
+    const job = villager.job
+    if (!job) return // Done wandering; new work is looked for on the next update
+
+    if (job.stage === 'toSite') {
+      const definition = JOB_DEFINITIONS[job.type]
+      if (definition.canWork && !definition.canWork(this.world, job)) {
+        console.log(`${JOB_CONFIG[job.type].label}: nothing left to do at (${job.gridX}, ${job.gridY})`)
+        this.cancel(job)
+        return
+      }
+      job.stage = 'working'
+      job.workTimer = 0
+      villager.state = 'working'
+    } else if (job.stage === 'returning') {
+      this.deliver(villager, job)
+    }
+  }
+
+  private assign(villager: Villager): void {
+    const job = this.takeFromQueue(villager) ?? this.findOwnWork(villager)
+    if (!job) {
+      this.world.wander(villager)
+      return
+    }
+
+    job.assignee = villager
+    job.stage = 'toSite'
+    villager.job = job
+    this.world.walkTo(villager, job.gridX, job.gridY)
+  }
+
+  /**
+   * Highest-priority queued job the villager can do, nearest first on ties
+   */
+  private takeFromQueue(villager: Villager): Job | null {
+    const from = this.world.getVillagerTile(villager)
+    let best: Job | null = null
+    let bestDistance = Infinity
+
+    for (const job of this.queue) {
+      if (!this.canDo(villager, job.type)) continue
+      if (job.worker && job.worker !== villager) continue
+      const distance = Math.abs(job.gridX - from.gridX) + Math.abs(job.gridY - from.gridY)
+      if (!best || job.priority > best.priority || (job.priority === best.priority && distance < bestDistance)) {
+        best = job
+        bestDistance = distance
+      }
+    }
+
+    if (best) {
+      this.queue = this.queue.filter(queued => queued !== best)
+    }
+    return best
+  }
+
+  /**
+   * Work the villager's profession finds without anyone posting it
+   */
+  private findOwnWork(villager: Villager): Job | null {
+    for (const type of JOB_TYPES_BY_PRIORITY) {
+      const definition = JOB_DEFINITIONS[type]
+      if (!definition.find || !this.canDo(villager, type)) continue
+
+      const request = definition.find(this.world, villager)
+      const job = request ? this.createJob(request, false) : null
+      if (job) return job
+    }
+    return null
+  }
+
+  private finishWork(villager: Villager, job: Job): void {
+    this.reservations.release(job)
+    job.onWorked?.(job) // May still change what is carried away (a hunter can miss)
+    const load = JOB_DEFINITIONS[job.type].complete(this.world, job)
+
+    if (!load) {
+      this.finish(villager, job)
+      return
+    }
+
+    // Carry the result to the drop-off point (storage unless the job says otherwise)
+    villager.carrying = load
+    villager.state = 'idle'
+    job.stage = 'returning'
+    job.dropoff ??= this.world.findDropoff(load, this.world.getVillagerTile(villager)) ?? undefined
+    if (job.dropoff) {
+      this.world.walkTo(villager, job.dropoff.gridX, job.dropoff.gridY)
+    } else {
+      console.log(`No storage for ${load.amount} ${load.resource}, dropped`)
+      villager.carrying = null
+      this.finish(villager, job)
+    }
+  }
+
+  private deliver(villager: Villager, job: Job): void {
+    const load = villager.carrying
+    villager.carrying = null
+
+    if (load && job.onDeliver) {
+      job.onDeliver(load)
+    } else if (load && job.dropoff) {
+      const left = this.world.deliver(load, job.dropoff)
+
+      // Filled up while on the way: take the rest to the next storage with space
+      if (left > 0) {
+        const rest = { resource: load.resource, amount: left }
+        const next = this.world.findDropoff(rest, job.dropoff)
+        if (next) {
+          villager.carrying = rest
+          job.dropoff = next
+          this.world.walkTo(villager, next.gridX, next.gridY)
+          return
+        }
+        console.log(`Storage full, ${left} ${load.resource} dropped`)
+      }
+    }
+    this.finish(villager, job)
+  }
+
+  private finish(villager: Villager, job: Job): void {
+    villager.job = null
+    villager.state = 'idle'
+    job.assignee = null
+    job.onDone?.(job)
+  }
+
+  private createJob(request: JobRequest, posted: boolean): Job | null {
+    const job: Job = {
+      ...request,
+      id: this.nextId++,
+      priority: request.priority ?? JOB_CONFIG[request.type].priority,
+      posted,
+      stage: 'toSite',
+      workTimer: 0,
+      assignee: null
+    }
+
+    if (request.claimSite && !this.reservations.claim(job, job.gridX, job.gridY)) {
+      return null
+    }
+    return job
+  }
+
+  private canDo(villager: Villager, type: JobType): boolean {
+    const professions = JOB_CONFIG[type].professions
+    if (professions === 'any') return true
+    return villager.profession !== null && professions.includes(villager.profession)
+  }
+}
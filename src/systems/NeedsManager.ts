@@ -0,0 +1,106 @@
+import { NEEDS_CONFIG, TIME_CONFIG } from '@/config/constants'
+import type { Villager, VillagerActivity, VillagerNeeds } from '@/types/game'
+import type { TimeManager } from './TimeManager'
+
+/**
+ * NeedsManager
+ * Villagers get hungry, tired and cold. Needs decay with game time (faster
+ * outdoors at night) and recover at home. Each frame every villager scores
+ * the things they could do and picks the most urgent: keep working, go home
+ * to eat, to sleep, or to warm up by the fire.
+ */
+export class NeedsManager {
+  private timeManager: TimeManager
+
+  constructor(timeManager: TimeManager) {
+    this.timeManager = timeManager
+  }
+
+  public createNeeds(): VillagerNeeds {
+    return { food: 1, rest: 1, warmth: 1, distress: 0 }
+  }
+
+  /**
+   * Decay and recover needs for the time passed
+   */
+  public update(villager: Villager, delta: number): void {
+    const days = delta / TIME_CONFIG.dayDuration
+    const needs = villager.needs
+    const atHome = villager.state === 'inside'
+    const night = this.timeManager.isNight()
+
+    needs.food = clamp(needs.food - NEEDS_CONFIG.foodDecay * days)
+
+    if (atHome && villager.activity === 'sleep') {
+      needs.rest = clamp(needs.rest + NEEDS_CONFIG.restRecovery * days)
+    } else {
+      needs.rest = clamp(needs.rest - NEEDS_CONFIG.restDecay * days)
+    }
+
+    if (atHome) {
+      needs.warmth = clamp(needs.warmth + NEEDS_CONFIG.warmthRecoveryHome * days)
+    } else if (night) {
+      needs.warmth = clamp(needs.warmth - NEEDS_CONFIG.warmthDecayNight * days)
+    } else {
+      needs.warmth = clamp(needs.warmth + NEEDS_CONFIG.warmthRecoveryDay * days)
+    }
+
+    // Distress builds while any need is fully unmet and fades otherwise
+    if (Math.min(needs.food, needs.rest, needs.warmth) <= 0) {
+      needs.distress += delta
+    } else {
+      needs.distress = Math.max(0, needs.distress - delta)
+    }
+  }
+
+  /**
+   * Utility-based decision: the activity with the highest score wins
+   * @param foodAvailable Whether the village has anything to eat
+   */
+  public chooseActivity(villager: Villager, foodAvailable: boolean): VillagerActivity {
+    // Without a home there is nowhere to eat, sleep or warm up (nor while it is being moved)
+    if (!villager.home?.constructed) return 'work'
+
+    const needs = villager.needs
+    const scores: Record<VillagerActivity, number> = {
+      work: NEEDS_CONFIG.workUtility + (villager.carrying ? NEEDS_CONFIG.errandBonus : 0),
+      eat: foodAvailable ? (1 - needs.food) * 1.2 : 0,
+      sleep: (1 - needs.rest) * 0.5 + (this.timeManager.isNight() ? 0.6 : 0),
+      warmUp: (1 - needs.warmth) * 1.2
+    }
+    scores[villager.activity] += NEEDS_CONFIG.commitBonus
+
+    // Nothing left to sleep off once rested and the sun is up
+    if (needs.rest >= 1 && !this.timeManager.isNight()) scores.sleep = 0
+    if (needs.warmth >= 1) scores.warmUp = 0
+
+    let best: VillagerActivity = 'work'
+    for (const activity of Object.keys(scores) as VillagerActivity[]) {
+      if (scores[activity] > scores[best]) best = activity
+    }
+    return best
+  }
+
+  /**
+   * Work speed multiplier: slower when any need runs low
+   */
+  public getWorkEfficiency(villager: Villager): number {
+    const { food, rest, warmth } = villager.needs
+    const worst = Math.min(food, rest, warmth)
+    if (worst >= NEEDS_CONFIG.lowNeed) return 1
+
+    const t = worst / NEEDS_CONFIG.lowNeed
+    return NEEDS_CONFIG.minEfficiency + (1 - NEEDS_CONFIG.minEfficiency) * t
+  }
+
+  /**
+   * True once a villager has suffered long enough to give up on the village
+   */
+  public shouldLeave(villager: Villager): boolean {
+    return villager.needs.distress >= NEEDS_CONFIG.leaveAfter
+  }
+}
+
+function clamp(value: number): number {
+  return Math.max(0, Math.min(1, value))
+}
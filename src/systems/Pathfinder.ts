@@ -0,0 +1,198 @@
+import { TerrainType, TERRAIN_RULES, PATHFINDING_CONFIG } from '@/config/constants'
+import type { GridPoint } from '@/types/game'
+import { isWalkableTerrain, getMoveCost } from '@/utils/terrain'
+
+export interface PathfinderWorld {
+  getTerrain: (gridX: number, gridY: number) => TerrainType
+  isOccupied: (gridX: number, gridY: number) => boolean  // Blocked by a building
+}
+
+interface SearchNode extends GridPoint {
+  g: number       // Cost from the start
+  f: number       // g + heuristic
+  parent: SearchNode | null
+}
+
+// 8-neighbourhood; diagonal steps may not cut blocked corners
+const NEIGHBOURS: ReadonlyArray<[number, number]> = [
+  [1, 0], [-1, 0], [0, 1], [0, -1],
+  [1, 1], [1, -1], [-1, 1], [-1, -1]
+]
+
+// Cheapest tile, keeps the heuristic admissible whatever the terrain costs are
+const MIN_MOVE_COST = Math.min(...Object.values(TERRAIN_RULES).map(rule => rule.moveCost))
+
+/**
+ * Binary min-heap of search nodes ordered by f
+ */
+class OpenSet {
+  private nodes: SearchNode[] = []
+
+  public get size(): number {
+    return this.nodes.length
+  }
+
+  public push(node: SearchNode): void {
+    this.nodes.push(node)
+    let index = this.nodes.length - 1
+    while (index > 0) {
+      const parent = (index - 1) >> 1
+      if (this.nodes[parent].f <= node.f) break
+      this.nodes[index] = this.nodes[parent]
+      index = parent
+    }
+    this.nodes[index] = node
+  }
+
+  public pop(): SearchNode | undefined {
+    const top = this.nodes[0]
+    const last = this.nodes.pop()
+    if (this.nodes.length === 0 || !last) return top
+
+    let index = 0
+    for (;;) {
+      const left = index * 2 + 1
+      const right = left + 1
+      let smallest = index
+      let smallestF = last.f
+      if (left < this.nodes.length && this.nodes[left].f < smallestF) {
+        smallest = left
+        smallestF = this.nodes[left].f
+      }
+      if (right < this.nodes.length && this.nodes[right].f < smallestF) {
+        smallest = right
+      }
+      if (smallest === index) break
+      this.nodes[index] = this.nodes[smallest]
+      index = smallest
+    }
+    this.nodes[index] = last
+    return top
+  }
+}
+
+/**
+ * Pathfinder
+ * A* over the tile grid. Tiles are walkable when their terrain allows it and
+ * no building stands on them; each terrain has its own movement cost.
+ *
+ * Found paths are cached until the world changes. Every change bumps
+ * `version`, so walkers can tell their path may have become blocked.
+ */
+export class Pathfinder {
+  private world: PathfinderWorld
+  private cache: Map<string, GridPoint[] | null> = new Map()
+  private worldVersion = 0
+
+  constructor(world: PathfinderWorld) {
+    this.world = world
+  }
+
+  public get version(): number {
+    return this.worldVersion
+  }
+
+  /**
+   * Call whenever walkability or cost of any tile changes
+   */
+  public invalidate(): void {
+    this.worldVersion++
+    this.cache.clear()
+  }
+
+  public isWalkable(gridX: number, gridY: number): boolean {
+    return isWalkableTerrain(this.world.getTerrain(gridX, gridY)) && !this.world.isOccupied(gridX, gridY)
+  }
+
+  /**
+   * True if no remaining waypoint of a path has become blocked
+   * The final waypoint is the destination and may be a building or a tree
+   */
+  public isPathClear(path: GridPoint[], fromIndex: number = 0): boolean {
+    for (let i = fromIndex; i < path.length - 1; i++) {
+      if (!this.isWalkable(path[i].gridX, path[i].gridY)) return false
+    }
+    return true
+  }
+
+  /**
+   * Find the cheapest path between two tiles
+   * The start and goal tiles are always enterable (villagers leave and enter buildings).
+   * @returns Waypoints from the first step to the goal, or null if unreachable
+   */
+  public findPath(fromX: number, fromY: number, toX: number, toY: number): GridPoint[] | null {
+    const key = `${fromX},${fromY}>${toX},${toY}`
+    if (this.cache.has(key)) {
+      return this.cache.get(key) ?? null
+    }
+
+    const path = this.search(fromX, fromY, toX, toY)
+
+    // Oldest entries go first once the cache is full
+    if (this.cache.size >= PATHFINDING_CONFIG.cacheSize) {
+      const oldest = this.cache.keys().next().value
+      if (oldest !== undefined) this.cache.delete(oldest)
+    }
+    this.cache.set(key, path)
+    return path
+  }
+
+  private search(fromX: number, fromY: number, toX: number, toY: number): GridPoint[] | null {
+    if (fromX === toX && fromY === toY) return []
+
+    const heuristic = (gridX: number, gridY: number): number => {
+      // Octile distance
+      const dx = Math.abs(gridX - toX)
+      const dy = Math.abs(gridY - toY)
+      return (Math.max(dx, dy) + (Math.SQRT2 - 1) * Math.min(dx, dy)) * MIN_MOVE_COST
+    }
+
+    const canEnter = (gridX: number, gridY: number): boolean =>
+      (gridX === toX && gridY === toY) || this.isWalkable(gridX, gridY)
+
+    const open = new OpenSet()
+    const best: Map<string, number> = new Map() // Cheapest known g per tile
+    const closed: Set<string> = new Set()
+
+    open.push({ gridX: fromX, gridY: fromY, g: 0, f: heuristic(fromX, fromY), parent: null })
+    best.set(`${fromX},${fromY}`, 0)
+
+    while (open.size > 0 && closed.size < PATHFINDING_CONFIG.maxSearchNodes) {
+      const current = open.pop()!
+      const currentKey = `${current.gridX},${current.gridY}`
+      if (closed.has(currentKey)) continue // Stale heap entry
+      closed.add(currentKey)
+
+      if (current.gridX === toX && current.gridY === toY) {
+        return this.buildPath(current)
+      }
+
+      for (const [dx, dy] of NEIGHBOURS) {
+        const gridX = current.gridX + dx
+        const gridY = current.gridY + dy
+        const key = `${gridX},${gridY}`
+        if (closed.has(key) || !canEnter(gridX, gridY)) continue
+
+        const diagonal = dx !== 0 && dy !== 0
+        if (diagonal && (!canEnter(current.gridX + dx, current.gridY) || !canEnter(current.gridX, current.gridY + dy))) continue
+
+        const step = getMoveCost(this.world.getTerrain(gridX, gridY)) * (diagonal ? Math.SQRT2 : 1)
+        const g = current.g + step
+        if (g >= (best.get(key) ?? Infinity)) continue
+
+        best.set(key, g)
+        open.push({ gridX, gridY, g, f: g + heuristic(gridX, gridY), parent: current })
+      }
+    }
+
+    return null
+  }
+
+  private buildPath(goal: SearchNode): GridPoint[] {
+    const path: GridPoint[] = []
+    for (let node: SearchNode | null = goal; node && node.parent; node = node.parent) {
+      path.push({ gridX: node.gridX, gridY: node.gridY })
+    }
+    return path.reverse()
+  }
+}
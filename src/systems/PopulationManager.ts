@@ -0,0 +1,70 @@
+import { POPULATION_CONFIG, TIME_CONFIG } from '@/config/constants'
+import { BUILDING_DEFINITIONS } from '@/config/buildings'
+import type { SeededRandom } from '@/utils/random'
+import type { Building, LifeStage, Villager, VillagerLife } from '@/types/game'
+
+/**
+ * PopulationManager
+ * Villagers are born as children into a household, grow up to work, grow
+ * old and eventually die. Homes with room to spare, a grown-up resident and
+ * food in storage have a chance of a birth every so often.
+ */
+export class PopulationManager {
+  private random: SeededRandom
+
+  constructor(random: SeededRandom) {
+    this.random = random
+  }
+
+  /**
+   * Life of a newcomer: a newborn child, or a settler arriving as an adult
+   */
+  public createLife(stage: LifeStage): VillagerLife {
+    const [minAge, maxAge] = POPULATION_CONFIG.settlerAge
+    const [minLifespan, maxLifespan] = POPULATION_CONFIG.lifespan
+    return {
+      age: stage === 'child' ? 0 : this.random.range(minAge, maxAge),
+      stage,
+      lifespan: this.random.range(minLifespan, maxLifespan)
+    }
+  }
+
+  /**
+   * Age a villager for the time passed
+   * @returns The new life stage when the villager just reached one, else null
+   */
+  public update(villager: Villager, delta: number): LifeStage | null {
+    const life = villager.life
+    life.age += delta / TIME_CONFIG.dayDuration
+
+    const stage = getStage(life.age)
+    if (stage === life.stage) return null
+
+    life.stage = stage
+    return stage
+  }
+
+  /**
+   * True once a villager has reached the end of their lifespan
+   */
+  public isDying(villager: Villager): boolean {
+    return villager.life.age >= villager.life.lifespan
+  }
+
+  /**
+   * Roll for a birth in a finished home
+   * @param foodInStock Largest stock of a single edible resource
+   */
+  public rollBirth(home: Building, foodInStock: number): boolean {
+    if (!home.constructed || home.residents.length >= BUILDING_DEFINITIONS[home.type].capacity) return false
+    if (!home.residents.some(resident => resident.life.stage === 'adult')) return false
+    if (foodInStock < POPULATION_CONFIG.birthFood) return false
+
+    return this.random.chance(POPULATION_CONFIG.birthChance)
+  }
+}
+
+function getStage(age: number): LifeStage {
+  if (age < POPULATION_CONFIG.adultAge) return 'child'
+  return age < POPULATION_CONFIG.elderAge ? 'adult' : 'elder'
+}
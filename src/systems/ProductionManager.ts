@@ -0,0 +1,250 @@
+import { BUILDING_DEFINITIONS, type ProductionDefinition } from '@/config/buildings'
+import type { Building, CarriedLoad, GridPoint, Job, Pickup, ProductionStatus, Profession, ResourceCost, ResourceType, Villager } from '@/types/game'
+import type { JobManager } from './JobManager'
+
+export interface ProductionEvents {
+  getStock: (resource: ResourceType) => number
+  withdraw: (cost: ResourceCost, near: GridPoint) => Pickup[] | null
+  hasStorageSpace: (resource: ResourceType) => boolean
+  hireWorker: (building: Building, profession: Profession) => Villager | null
+  onStatusChange: (building: Building, status: ProductionStatus) => void
+}
+
+interface Production {
+  building: Building
+  definition: ProductionDefinition
+  input: ResourceCost       // On hand, waiting to be worked
+  incoming: ResourceCost    // Taken from storage, on the way
+  output: ResourceCost      // Finished, waiting to be carried to storage
+  worker: Villager | null
+  workJob: Job | null
+  jobs: Set<Job>            // Every open job, for removal
+  status: ProductionStatus
+  removed: boolean
+}
+
+/**
+ * ProductionManager
+ * Production buildings turn inputs into outputs by a recipe. Each has one
+ * worker slot, a small input buffer kept stocked from storage and an output
+ * buffer emptied into storage. Moving goods and doing the work are ordinary
+ * posted jobs; the work job is reserved for the building's hired worker.
+ */
+export class ProductionManager {
+  private jobManager: JobManager
+  private events: ProductionEvents
+  private productions: Map<Building, Production> = new Map()
+
+  constructor(jobManager: JobManager, events: ProductionEvents) {
+    this.jobManager = jobManager
+    this.events = events
+  }
+
+  /**
+   * Start producing in a finished building
+   */
+  public addBuilding(building: Building): void {
+    const definition = BUILDING_DEFINITIONS[building.type].production
+    if (!definition) return
+
+    const production: Production = {
+      building,
+      definition,
+      input: {},
+      incoming: {},
+      output: {},
+      worker: null,
+      workJob: null,
+      jobs: new Set(),
+      status: 'idle',
+      removed: false
+    }
+    this.productions.set(building, production)
+    this.events.onStatusChange(building, production.status)
+    this.updateProduction(production)
+  }
+
+  /**
+   * Stop production; buffered goods are lost with the building
+   * @returns The worker let go, if there was one
+   */
+  public removeBuilding(building: Building): Villager | null {
+    const production = this.productions.get(building)
+    if (!production) return null
+
+    production.removed = true
+    for (const job of [...production.jobs]) {
+      this.jobManager.cancel(job)
+    }
+    if (production.worker) production.worker.workplace = null
+    this.productions.delete(building)
+    return production.worker
+  }
+
+  /**
+   * A worker left the village; the slot is filled again on the next update
+   */
+  public releaseWorker(villager: Villager): void {
+    const building = villager.workplace
+    const production = building ? this.productions.get(building) : undefined
+    villager.workplace = null
+    if (!production) return
+
+    production.worker = null
+    if (production.workJob) this.jobManager.cancel(production.workJob)
+  }
+
+  public getStatus(building: Building): ProductionStatus | null {
+    return this.productions.get(building)?.status ?? null
+  }
+
+  /**
+   * Hire, restock, clear output and start work where possible
+   */
+  public update(): void {
+    for (const production of this.productions.values()) {
+      this.updateProduction(production)
+    }
+  }
+
+  private updateProduction(production: Production): void {
+    const { building, definition } = production
+
+    if (!production.worker) {
+      production.worker = this.events.hireWorker(building, definition.profession)
+      if (production.worker) production.worker.workplace = building
+    }
+
+    this.restock(production)
+    this.clearOutput(production)
+
+    if (production.worker && !production.workJob && this.hasInputs(production) && this.hasOutputRoom(production)) {
+      this.postWork(production)
+    }
+
+    const status: ProductionStatus = production.workJob
+      ? 'working'
+      : this.hasOutputRoom(production) ? 'idle' : 'blocked'
+    if (status !== production.status) {
+      production.status = status
+      this.events.onStatusChange(building, status)
+    }
+  }
+
+  /**
+   * Keep inputBatches worth of every input on hand or on the way
+   */
+  private restock(production: Production): void {
+    const { inputs } = production.definition.recipe
+    for (const [resource, perBatch] of Object.entries(inputs) as [ResourceType, number][]) {
+      const wanted = perBatch * production.definition.inputBatches
+      const have = (production.input[resource] ?? 0) + (production.incoming[resource] ?? 0)
+      const amount = Math.min(wanted - have, this.events.getStock(resource))
+      if (amount <= 0) continue
+
+      const pickups = this.events.withdraw({ [resource]: amount }, production.building)
+      pickups?.forEach(pickup => this.postDelivery(production, pickup))
+    }
+  }
+
+  private postDelivery(production: Production, pickup: Pickup): void {
+    const { from, load } = pickup
+    addTo(production.incoming, load)
+
+    const job = this.jobManager.post({
+      type: 'hauling',
+      gridX: from.gridX,
+      gridY: from.gridY,
+      load,
+      dropoff: { gridX: production.building.gridX, gridY: production.building.gridY },
+      onDeliver: (delivered: CarriedLoad) => {
+        addTo(production.incoming, delivered, -1)
+        addTo(production.input, delivered)
+      },
+      onDone: (done: Job) => production.jobs.delete(done),
+      onCancel: (cancelled: Job) => {
+        production.jobs.delete(cancelled)
+        addTo(production.incoming, load, -1)
+        // Goods already out of storage are fetched again
+        if (!production.removed) this.postDelivery(production, pickup)
+      }
+    })
+    if (job) production.jobs.add(job)
+  }
+
+  /**
+   * Send finished goods to storage while there is room for them
+   */
+  private clearOutput(production: Production): void {
+    const { gridX, gridY } = production.building
+    for (const [resource, amount] of Object.entries(production.output) as [ResourceType, number][]) {
+      if (amount <= 0 || !this.events.hasStorageSpace(resource)) continue
+
+      const load: CarriedLoad = { resource, amount }
+      addTo(production.output, load, -1)
+      const job = this.jobManager.post({
+        type: 'hauling',
+        gridX,
+        gridY,
+        load,
+        onDone: (done: Job) => production.jobs.delete(done),
+        onCancel: (cancelled: Job) => {
+          production.jobs.delete(cancelled)
+          addTo(production.output, load)
+        }
+      })
+      if (job) production.jobs.add(job)
+    }
+  }
+
+  private postWork(production: Production): void {
+    const { building, definition } = production
+    const { recipe } = definition
+
+    const job = this.jobManager.post({
+      type: 'production',
+      gridX: building.gridX,
+      gridY: building.gridY,
+      worker: production.worker ?? undefined,
+      workDuration: recipe.duration,
+      onDone: (done: Job) => {
+        production.jobs.delete(done)
+        production.workJob = null
+        for (const [resource, amount] of Object.entries(recipe.inputs) as [ResourceType, number][]) {
+          addTo(production.input, { resource, amount }, -1)
+        }
+        for (const [resource, amount] of Object.entries(recipe.outputs) as [ResourceType, number][]) {
+          addTo(production.output, { resource, amount })
+        }
+        console.log(`${building.type} at (${building.gridX}, ${building.gridY}) produced`, recipe.outputs)
+        this.updateProduction(production)
+      },
+      onCancel: (cancelled: Job) => {
+        production.jobs.delete(cancelled)
+        production.workJob = null
+      }
+    })
+    if (job) {
+      production.workJob = job
+      production.jobs.add(job)
+    }
+  }
+
+  private hasInputs(production: Production): boolean {
+    return (Object.entries(production.definition.recipe.inputs) as [ResourceType, number][])
+      .every(([resource, amount]) => (production.input[resource] ?? 0) >= amount)
+  }
+
+  /**
+   * Room in the output buffer for one more batch
+   */
+  private hasOutputRoom(production: Production): boolean {
+    const { recipe, outputBatches } = production.definition
+    return (Object.entries(recipe.outputs) as [ResourceType, number][])
+      .every(([resource, amount]) => (production.output[resource] ?? 0) + amount <= amount * outputBatches)
+  }
+}
+
+function addTo(cost: ResourceCost, load: CarriedLoad, sign: number = 1): void {
+  cost[load.resource] = (cost[load.resource] ?? 0) + load.amount * sign
+}
@@ -0,0 +1,116 @@
+import Phaser from 'phaser'
+import { RESOURCE_CONFIG, RESOURCE_RATE_WINDOW } from '@/config/constants'
+import type { ResourceCost, ResourceType } from '@/types/game'
+
+// Emitted with (type, amount, change) whenever a stock or its capacity changes
+export const RESOURCE_CHANGED = 'resource-changed'
+
+export interface ResourceRates {
+  income: number   // Per minute, averaged over RESOURCE_RATE_WINDOW
+  expense: number
+}
+
+interface LedgerEntry {
+  time: number
+  type: ResourceType
+  change: number
+}
+
+/**
+ * ResourceManager
+ * Village totals across all storage. All changes go through add/spend so
+ * listeners are notified and income/expense rates can be derived from a
+ * rolling ledger. Where goods actually sit is up to the StorageManager.
+ */
+export class ResourceManager extends Phaser.Events.EventEmitter {
+  private amounts: Record<ResourceType, number>
+  private capacity: ResourceCost = {} // Summed over storage buildings
+  private ledger: LedgerEntry[] = []
+  private elapsed = 0 // Game time in ms, drives the rate window
+
+  constructor() {
+    super()
+    this.amounts = Object.fromEntries(
+      Object.entries(RESOURCE_CONFIG).map(([type, config]) => [type, config.initial])
+    ) as Record<ResourceType, number>
+  }
+
+  public update(delta: number): void {
+    this.elapsed += delta
+
+    // Forget changes older than the rate window
+    const cutoff = this.elapsed - RESOURCE_RATE_WINDOW
+    while (this.ledger.length > 0 && this.ledger[0].time < cutoff) {
+      this.ledger.shift()
+    }
+  }
+
+  public get(type: ResourceType): number {
+    return this.amounts[type]
+  }
+
+  public getAll(): Readonly<Record<ResourceType, number>> {
+    return this.amounts
+  }
+
+  public getCapacity(type: ResourceType): number {
+    return this.capacity[type] ?? 0
+  }
+
+  public setCapacity(capacity: ResourceCost): void {
+    const previous = this.capacity
+    this.capacity = { ...capacity }
+    for (const type of Object.keys(this.amounts) as ResourceType[]) {
+      if ((previous[type] ?? 0) !== (capacity[type] ?? 0)) {
+        this.emit(RESOURCE_CHANGED, type, this.amounts[type], 0)
+      }
+    }
+  }
+
+  public add(type: ResourceType, amount: number): void {
+    if (amount <= 0) return
+    this.change(type, amount)
+  }
+
+  public canAfford(cost: ResourceCost): boolean {
+    return (Object.entries(cost) as [ResourceType, number][])
+      .every(([type, amount]) => this.amounts[type] >= amount)
+  }
+
+  /**
+   * Take a cost from the stockpile, all or nothing
+   * @returns False (and nothing spent) if any resource is short
+   */
+  public spend(cost: ResourceCost): boolean {
+    if (!this.canAfford(cost)) return false
+
+    for (const [type, amount] of Object.entries(cost) as [ResourceType, number][]) {
+      if (amount > 0) this.change(type, -amount)
+    }
+    return true
+  }
+
+  /**
+   * Income and expense per minute over the recent past
+   */
+  public getRates(type: ResourceType): ResourceRates {
+    let income = 0
+    let expense = 0
+    for (const entry of this.ledger) {
+      if (entry.type !== type) continue
+      if (entry.change > 0) income += entry.change
+      else expense -= entry.change
+    }
+
+    // Early in the game the window is not full yet
+    const window = Math.max(1000, Math.min(this.elapsed, RESOURCE_RATE_WINDOW))
+    const perMinute = 60000 / window
+    return { income: income * perMinute, expense: expense * perMinute }
+  }
+
+  private change(type: ResourceType, change: number): void {
+    this.amounts[type] += change
+    this.ledger.push({ time: this.elapsed, type, change })
+    this.emit(RESOURCE_CHANGED, type, this.amounts[type], change)
+  }
+}
@@ -0,0 +1,107 @@
+import { ROAD_CONFIG, TerrainType } from '@/config/constants'
+import type { GridPoint } from '@/types/game'
+
+export interface RoadEvents {
+  getTerrain: (gridX: number, gridY: number) => TerrainType
+  setTerrain: (gridX: number, gridY: number, type: TerrainType) => void
+  isOccupied: (gridX: number, gridY: number) => boolean
+}
+
+/**
+ * RoadManager
+ * Roads are painted by the player; paths appear on their own. Every footstep
+ * onto meadow is remembered, and meadow walked often enough is worn into a
+ * path. Footsteps are slowly forgotten, so only routes villagers keep taking
+ * wear in. Both only go on meadow, so taking a road up restores the ground.
+ */
+export class RoadManager {
+  private events: RoadEvents
+  private traffic: Map<string, number> = new Map() // Tile "x,y" -> remembered footsteps
+
+  constructor(events: RoadEvents) {
+    this.events = events
+  }
+
+  /**
+   * Meadow and worn paths can be paved; buildings are in the way
+   */
+  public canPave(gridX: number, gridY: number): boolean {
+    if (this.events.isOccupied(gridX, gridY)) return false
+    return ROAD_CONFIG.pavable.includes(this.events.getTerrain(gridX, gridY))
+  }
+
+  public pave(gridX: number, gridY: number): void {
+    this.events.setTerrain(gridX, gridY, TerrainType.ROAD)
+    this.traffic.delete(`${gridX},${gridY}`)
+  }
+
+  /**
+   * Take up a road, leaving meadow behind
+   */
+  public removeRoad(gridX: number, gridY: number): boolean {
+    if (this.events.getTerrain(gridX, gridY) !== TerrainType.ROAD) return false
+    this.events.setTerrain(gridX, gridY, TerrainType.MEADOW)
+    return true
+  }
+
+  /**
+   * A villager walked onto a tile
+   */
+  public step(gridX: number, gridY: number): void {
+    const terrain = this.events.getTerrain(gridX, gridY)
+    if (!ROAD_CONFIG.wearable.includes(terrain) || this.events.isOccupied(gridX, gridY)) return
+
+    const key = `${gridX},${gridY}`
+    const steps = (this.traffic.get(key) ?? 0) + 1
+    if (steps < ROAD_CONFIG.wearSteps) {
+      this.traffic.set(key, steps)
+      return
+    }
+
+    this.traffic.delete(key)
+    this.events.setTerrain(gridX, gridY, TerrainType.PATH)
+    console.log(`Path worn in at (${gridX}, ${gridY})`)
+  }
+
+  /**
+   * Forget some footsteps everywhere (call on a timer)
+   */
+  public update(): void {
+    for (const [key, steps] of this.traffic) {
+      const left = steps - ROAD_CONFIG.wearDecay
+      if (left > 0) {
+        this.traffic.set(key, left)
+      } else {
+        this.traffic.delete(key)
+      }
+    }
+  }
+}
+
+/**
+ * Tiles along a stroke from one tile to another, stepping only sideways or
+ * up and down so consecutive road tiles always join
+ */
+export function getStrokeTiles(from: GridPoint, to: GridPoint): GridPoint[] {
+  const tiles: GridPoint[] = [{ gridX: from.gridX, gridY: from.gridY }]
+  const stepX = Math.sign(to.gridX - from.gridX)
+  const stepY = Math.sign(to.gridY - from.gridY)
+  const spanX = Math.abs(to.gridX - from.gridX)
+  const spanY = Math.abs(to.gridY - from.gridY)
+
+  let { gridX, gridY } = from
+  let movedX = 0
+  let movedY = 0
+  while (movedX < spanX || movedY < spanY) {
+    // Step along whichever axis keeps the stroke closest to the straight line
+    if (movedY >= spanY || (movedX < spanX && (movedX + 0.5) * spanY < (movedY + 0.5) * spanX)) {
+      gridX += stepX
+      movedX++
+    } else {
+      gridY += stepY
+      movedY++
+    }
+    tiles.push({ gridX, gridY })
+  }
+  return tiles
+}
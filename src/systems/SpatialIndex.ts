@@ -0,0 +1,99 @@
+import { TerrainType, CHUNK_SIZE, SPATIAL_CELL_SIZE } from '@/config/constants'
+import type { Building, Villager, WorkTileKind } from '@/types/game'
+import { SpatialGrid } from '@/utils/spatial'
+import { getWorkTileKind } from '@/utils/terrain'
+import type { Chunk } from './ChunkManager'
+
+/**
+ * SpatialIndex
+ * Query service for "what is near here?" questions: work tiles (trees, rocks,
+ * berries), buildings and villagers, each in its own grid-bucket index. Kept
+ * up to date incrementally as chunks generate, trees are cut, buildings are
+ * placed and villagers move, so queries never scan the whole world.
+ */
+export class SpatialIndex {
+  // Tile keys "x,y" per kind of work tile
+  public readonly workTiles: Record<WorkTileKind, SpatialGrid<string>> = {
+    tree: new SpatialGrid(SPATIAL_CELL_SIZE),
+    rocks: new SpatialGrid(SPATIAL_CELL_SIZE),
+    forage: new SpatialGrid(SPATIAL_CELL_SIZE)
+  }
+  public readonly buildings: SpatialGrid<Building> = new SpatialGrid(SPATIAL_CELL_SIZE) // One entry per building
+  public readonly villagers: SpatialGrid<Villager> = new SpatialGrid(SPATIAL_CELL_SIZE)
+
+  /**
+   * Index the work tiles of a freshly generated chunk
+   */
+  public addChunk(chunk: Chunk): void {
+    const originX = chunk.chunkX * CHUNK_SIZE
+    const originY = chunk.chunkY * CHUNK_SIZE
+
+    for (let localY = 0; localY < CHUNK_SIZE; localY++) {
+      for (let localX = 0; localX < CHUNK_SIZE; localX++) {
+        const kind = getWorkTileKind(chunk.terrain[localY * CHUNK_SIZE + localX])
+        if (kind) {
+          const gridX = originX + localX
+          const gridY = originY + localY
+          this.workTiles[kind].insert(`${gridX},${gridY}`, gridX, gridY)
+        }
+      }
+    }
+  }
+
+  /**
+   * Keep the work tile indexes in sync with a terrain change
+   */
+  public onTerrainChange(gridX: number, gridY: number, type: TerrainType): void {
+    const key = `${gridX},${gridY}`
+    const kind = getWorkTileKind(type)
+    for (const [indexKind, grid] of Object.entries(this.workTiles)) {
+      if (indexKind === kind) {
+        grid.insert(key, gridX, gridY)
+      } else {
+        grid.remove(key)
+      }
+    }
+  }
+
+  /**
+   * Nearest work tile of a kind passing the filter
+   */
+  public findNearestWorkTile(
+    kind: WorkTileKind,
+    gridX: number,
+    gridY: number,
+    maxRadius: number,
+    filter?: (gridX: number, gridY: number) => boolean
+  ): { gridX: number, gridY: number } | null {
+    const [key] = this.workTiles[kind].nearest(gridX, gridY, 1, maxRadius, filter ? (k: string) => {
+      const [x, y] = k.split(',').map(Number)
+      return filter(x, y)
+    } : undefined)
+    if (!key) return null
+
+    const [x, y] = key.split(',').map(Number)
+    return { gridX: x, gridY: y }
+  }
+
+  /**
+   * Index a building by the centre of its footprint
+   */
+  public addBuilding(building: Building, size: number): void {
+    this.buildings.insert(building, building.gridX + size / 2, building.gridY + size / 2)
+  }
+
+  public removeBuilding(building: Building): void {
+    this.buildings.remove(building)
+  }
+
+  /**
+   * Update a villager's position (grid coordinates)
+   */
+  public updateVillager(villager: Villager, gridX: number, gridY: number): void {
+    this.villagers.move(villager, gridX, gridY)
+  }
+
+  public removeVillager(villager: Villager): void {
+    this.villagers.remove(villager)
+  }
+}
@@ -0,0 +1,163 @@
+import type { Building, CarriedLoad, GridPoint, Pickup, ResourceCost, ResourceType } from '@/types/game'
+import type { ResourceManager } from './ResourceManager'
+
+interface Store {
+  building: Building
+  capacity: ResourceCost
+  contents: Partial<Record<ResourceType, number>>
+}
+
+/**
+ * StorageManager
+ * Goods physically sit in storage buildings, each with its own capacity per
+ * resource. The ResourceManager keeps the village totals for the HUD; every
+ * change to what is stored goes through here so the two always agree.
+ */
+export class StorageManager {
+  private resourceManager: ResourceManager
+  private stores: Map<Building, Store> = new Map()
+
+  constructor(resourceManager: ResourceManager) {
+    this.resourceManager = resourceManager
+  }
+
+  /**
+   * Start using a building as storage
+   * @param contents Goods already inside (the settlers' starting supplies),
+   *   counted in the village totals by the caller
+   */
+  public register(building: Building, capacity: ResourceCost, contents: ResourceCost = {}): void {
+    this.stores.set(building, { building, capacity, contents: { ...contents } })
+    this.updateCapacity()
+  }
+
+  /**
+   * Stop using a building as storage; whatever was inside is lost
+   */
+  public unregister(building: Building): void {
+    const store = this.stores.get(building)
+    if (!store) return
+
+    this.stores.delete(building)
+    this.resourceManager.spend(store.contents)
+    this.updateCapacity()
+  }
+
+  public isStore(building: Building): boolean {
+    return this.stores.has(building)
+  }
+
+  /**
+   * What a store holds (empty for anything else)
+   */
+  public getContents(building: Building): ResourceCost {
+    return { ...this.stores.get(building)?.contents }
+  }
+
+  public hasSpace(resource: ResourceType): boolean {
+    for (const store of this.stores.values()) {
+      if (this.getSpace(store, resource) > 0) return true
+    }
+    return false
+  }
+
+  /**
+   * True if the other stores have room for all of these goods, so a store
+   * can be taken down without losing anything
+   */
+  public fitsElsewhere(building: Building, goods: ResourceCost): boolean {
+    for (const [resource, amount] of Object.entries(goods) as [ResourceType, number][]) {
+      let space = 0
+      for (const store of this.stores.values()) {
+        if (store.building !== building) space += this.getSpace(store, resource)
+      }
+      if (space < amount) return false
+    }
+    return true
+  }
+
+  /**
+   * Nearest store with room for at least part of a load
+   */
+  public findSpace(resource: ResourceType, near: GridPoint): Building | null {
+    return this.findNearest(near, store => this.getSpace(store, resource) > 0)
+  }
+
+  /**
+   * Nearest store holding some of a resource
+   */
+  public findStock(resource: ResourceType, near: GridPoint): Building | null {
+    return this.findNearest(near, store => (store.contents[resource] ?? 0) > 0)
+  }
+
+  /**
+   * Put a load into a store, as much as fits
+   * @returns Amount that did not fit
+   */
+  public deposit(building: Building, load: CarriedLoad): number {
+    const store = this.stores.get(building)
+    if (!store) return load.amount
+
+    const accepted = Math.min(load.amount, this.getSpace(store, load.resource))
+    if (accepted > 0) {
+      store.contents[load.resource] = (store.contents[load.resource] ?? 0) + accepted
+      this.resourceManager.add(load.resource, accepted)
+    }
+    return load.amount - accepted
+  }
+
+  /**
+   * Take a cost out of storage, all or nothing, nearest stores first
+   * @returns Where each part was taken from, or null (nothing taken) if short
+   */
+  public withdraw(cost: ResourceCost, near: GridPoint | null = null): Pickup[] | null {
+    if (!this.resourceManager.spend(cost)) return null
+
+    const pickups: Pickup[] = []
+    for (const [resource, amount] of Object.entries(cost) as [ResourceType, number][]) {
+      let left = amount
+      const stores = [...this.stores.values()]
+        .filter(store => (store.contents[resource] ?? 0) > 0)
+        .sort((a, b) => near ? distance(a.building, near) - distance(b.building, near) : 0)
+
+      for (const store of stores) {
+        if (left <= 0) break
+        const taken = Math.min(left, store.contents[resource] ?? 0)
+        store.contents[resource] = (store.contents[resource] ?? 0) - taken
+        left -= taken
+        pickups.push({ from: { gridX: store.building.gridX, gridY: store.building.gridY }, load: { resource, amount: taken } })
+      }
+    }
+    return pickups
+  }
+
+  private getSpace(store: Store, resource: ResourceType): number {
+    return (store.capacity[resource] ?? 0) - (store.contents[resource] ?? 0)
+  }
+
+  private findNearest(near: GridPoint, accept: (store: Store) => boolean): Building | null {
+    let best: Store | null = null
+    for (const store of this.stores.values()) {
+      if (!accept(store)) continue
+      if (!best || distance(store.building, near) < distance(best.building, near)) best = store
+    }
+    return best?.building ?? null
+  }
+
+  /**
+   * Village capacity per resource, shown in the HUD
+   */
+  private updateCapacity(): void {
+    const totals: ResourceCost = {}
+    for (const store of this.stores.values()) {
+      for (const [resource, amount] of Object.entries(store.capacity) as [ResourceType, number][]) {
+        totals[resource] = (totals[resource] ?? 0) + amount
+      }
+    }
+    this.resourceManager.setCapacity(totals)
+  }
+}
+
+function distance(building: Building, point: GridPoint): number {
+  return Math.abs(building.gridX - point.gridX) + Math.abs(building.gridY - point.gridY)
+}
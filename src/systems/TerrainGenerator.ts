@@ -0,0 +1,115 @@
+import { TerrainType } from '@/config/constants'
+import {
+  BIOME_LAYERS,
+  BIOME_TABLE,
+  BIOME_PATCHES,
+  BIOME_SCATTER,
+  TEMPERATURE_LAPSE_RATE,
+  type BiomeRule,
+  type NoiseLayerConfig
+} from '@/config/biomes'
+import { NoiseGenerator } from '@/utils/noise'
+import { deriveSeed, hash2D } from '@/utils/random'
+
+export interface TerrainSample {
+  elevation: number
+  moisture: number
+  temperature: number
+}
+
+/**
+ * TerrainGenerator
+ * Combines elevation, moisture and temperature noise layers into biomes.
+ * Every tile is a pure function of (seed, x, y), so tiles can be generated
+ * in any order and always come out the same.
+ */
+export class TerrainGenerator {
+  private elevationNoise: NoiseGenerator
+  private moistureNoise: NoiseGenerator
+  private temperatureNoise: NoiseGenerator
+  private detailNoise: NoiseGenerator
+  private scatterSeed: number
+
+  constructor(seed: number) {
+    this.elevationNoise = new NoiseGenerator(deriveSeed(seed, 10))
+    this.moistureNoise = new NoiseGenerator(deriveSeed(seed, 11))
+    this.temperatureNoise = new NoiseGenerator(deriveSeed(seed, 12))
+    this.detailNoise = new NoiseGenerator(deriveSeed(seed, 13))
+    this.scatterSeed = deriveSeed(seed, 14)
+  }
+
+  /**
+   * Sample all climate layers at a tile
+   */
+  public sample(gridX: number, gridY: number): TerrainSample {
+    const elevation = this.sampleLayer(this.elevationNoise, BIOME_LAYERS.elevation, gridX, gridY)
+    const moisture = this.sampleLayer(this.moistureNoise, BIOME_LAYERS.moisture, gridX, gridY)
+    const baseTemperature = this.sampleLayer(this.temperatureNoise, BIOME_LAYERS.temperature, gridX, gridY)
+
+    // Higher ground is colder
+    const temperature = baseTemperature - (elevation - 0.5) * TEMPERATURE_LAPSE_RATE
+
+    return { elevation, moisture, temperature }
+  }
+
+  /**
+   * Elevation only (cheaper than a full sample)
+   */
+  public getElevation(gridX: number, gridY: number): number {
+    return this.sampleLayer(this.elevationNoise, BIOME_LAYERS.elevation, gridX, gridY)
+  }
+
+  /**
+   * Get the generated terrain type of a tile
+   */
+  public getTerrainAt(gridX: number, gridY: number): TerrainType {
+    const sample = this.sample(gridX, gridY)
+    let terrain = this.lookupBiome(sample)
+
+    // Secondary patches (clearings inside forests, ...)
+    for (const patch of BIOME_PATCHES) {
+      if (patch.on.includes(terrain)) {
+        const detail = this.sampleLayer(this.detailNoise, BIOME_LAYERS.detail, gridX, gridY)
+        if (detail > patch.threshold) {
+          terrain = patch.terrain
+        }
+      }
+    }
+
+    // Single-tile scatter (rocks)
+    for (const scatter of BIOME_SCATTER) {
+      if (scatter.on.includes(terrain) && hash2D(gridX, gridY, this.scatterSeed) < scatter.chance) {
+        terrain = scatter.terrain
+        break
+      }
+    }
+
+    return terrain
+  }
+
+  /**
+   * Find the first biome table row matching the sample
+   */
+  private lookupBiome(sample: TerrainSample): TerrainType {
+    for (const rule of BIOME_TABLE) {
+      if (this.matches(rule, sample)) {
+        return rule.terrain
+      }
+    }
+    return TerrainType.MEADOW
+  }
+
+  private matches(rule: BiomeRule, sample: TerrainSample): boolean {
+    return this.inRange(sample.elevation, rule.elevation) &&
+      this.inRange(sample.moisture, rule.moisture) &&
+      this.inRange(sample.temperature, rule.temperature)
+  }
+
+  private inRange(value: number, range?: [number, number]): boolean {
+    return !range || (value >= range[0] && value < range[1])
+  }
+
+  private sampleLayer(noise: NoiseGenerator, layer: NoiseLayerConfig, gridX: number, gridY: number): number {
+    return noise.octaveNoise(gridX * layer.scale, gridY * layer.scale, layer.octaves, layer.persistence)
+  }
+}
@@ -0,0 +1,198 @@
+import Phaser from 'phaser'
+import { TILE_WIDTH, TILE_HEIGHT, CHUNK_SIZE, TERRAIN_COLORS, TERRAIN_RULES, TerrainType } from '@/config/constants'
+import { gridToScreen } from '@/utils/isometric'
+import { isRoadTerrain } from '@/utils/terrain'
+import { toChunkCoord, type Chunk } from './ChunkManager'
+import type { RoadStyle } from '@/types/game'
+
+// Road pieces reach towards these neighbours: straight first, diagonals only
+// where no straight piece already turns the corner
+const STRAIGHT: ReadonlyArray<[number, number]> = [[1, 0], [-1, 0], [0, 1], [0, -1]]
+const DIAGONAL: ReadonlyArray<[number, number]> = [[1, 1], [1, -1], [-1, 1], [-1, -1]]
+
+/**
+ * TerrainRenderer
+ * Bakes the ground tiles of each loaded chunk into a single RenderTexture.
+ * Instead of one Graphics object per tile, the scene holds one texture per
+ * chunk. When a tile changes, its chunk is marked dirty and re-baked once
+ * at the end of the frame. Paths and roads are drawn on top of the ground,
+ * each tile reaching out to its road neighbours so they join into one way.
+ */
+export class TerrainRenderer {
+  private scene: Phaser.Scene
+  private container: Phaser.GameObjects.Container
+  private getTerrain: (gridX: number, gridY: number) => TerrainType // Neighbours may lie in another chunk
+  private textures: Map<string, Phaser.GameObjects.RenderTexture> = new Map() // Chunk "cx,cy" -> texture
+  private chunks: Map<string, Chunk> = new Map() // Chunks with a texture, for re-baking
+  private dirty: Set<string> = new Set()
+
+  // Off-screen brush reused for every bake
+  private brush: Phaser.GameObjects.Graphics
+
+  constructor(scene: Phaser.Scene, container: Phaser.GameObjects.Container, getTerrain: (gridX: number, gridY: number) => TerrainType) {
+    this.scene = scene
+    this.container = container
+    this.getTerrain = getTerrain
+    this.brush = this.scene.make.graphics({ x: 0, y: 0 }, false)
+  }
+
+  /**
+   * Create and bake the texture for a chunk entering the view
+   */
+  public addChunk(chunk: Chunk): void {
+    const key = `${chunk.chunkX},${chunk.chunkY}`
+    if (this.textures.has(key)) return
+
+    const { left, top } = this.getChunkOrigin(chunk)
+    const texture = this.scene.add.renderTexture(left, top, CHUNK_SIZE * TILE_WIDTH, CHUNK_SIZE * TILE_HEIGHT)
+    texture.setOrigin(0, 0)
+
+    this.container.add(texture)
+    this.textures.set(key, texture)
+    this.chunks.set(key, chunk)
+    this.bake(key)
+  }
+
+  /**
+   * Destroy the texture of a chunk leaving the view
+   */
+  public removeChunk(chunk: Chunk): void {
+    const key = `${chunk.chunkX},${chunk.chunkY}`
+    this.textures.get(key)?.destroy()
+    this.textures.delete(key)
+    this.chunks.delete(key)
+    this.dirty.delete(key)
+  }
+
+  /**
+   * Mark the chunk containing a tile for re-baking
+   */
+  public markTileDirty(gridX: number, gridY: number): void {
+    this.markRegionDirty(gridX, gridY, gridX, gridY)
+  }
+
+  /**
+   * Mark every loaded chunk overlapping a grid rectangle for re-baking
+   */
+  public markRegionDirty(minX: number, minY: number, maxX: number, maxY: number): void {
+    for (let chunkY = toChunkCoord(minY); chunkY <= toChunkCoord(maxY); chunkY++) {
+      for (let chunkX = toChunkCoord(minX); chunkX <= toChunkCoord(maxX); chunkX++) {
+        const key = `${chunkX},${chunkY}`
+        if (this.textures.has(key)) {
+          this.dirty.add(key)
+        }
+      }
+    }
+  }
+
+  /**
+   * Re-bake all dirty chunks (call once per frame)
+   */
+  public flush(): void {
+    for (const key of this.dirty) {
+      this.bake(key)
+    }
+    this.dirty.clear()
+  }
+
+  /**
+   * Draw every tile of a chunk into its texture
+   */
+  private bake(key: string): void {
+    const texture = this.textures.get(key)
+    const chunk = this.chunks.get(key)
+    if (!texture || !chunk) return
+
+    const { left, top } = this.getChunkOrigin(chunk)
+    const originX = chunk.chunkX * CHUNK_SIZE
+    const originY = chunk.chunkY * CHUNK_SIZE
+
+    this.brush.clear()
+    for (let localY = 0; localY < CHUNK_SIZE; localY++) {
+      for (let localX = 0; localX < CHUNK_SIZE; localX++) {
+        const terrainType = chunk.terrain[localY * CHUNK_SIZE + localX]
+        const { x, y } = gridToScreen(originX + localX, originY + localY)
+        this.drawDiamond(x - left, y - top, TERRAIN_COLORS[terrainType])
+      }
+    }
+
+    // Roads go over all the ground so diagonal joins are not covered by the next tile
+    for (let localY = 0; localY < CHUNK_SIZE; localY++) {
+      for (let localX = 0; localX < CHUNK_SIZE; localX++) {
+        const style = TERRAIN_RULES[chunk.terrain[localY * CHUNK_SIZE + localX]].road
+        if (style) this.drawRoad(originX + localX, originY + localY, style, left, top)
+      }
+    }
+
+    texture.clear()
+    texture.draw(this.brush)
+  }
+
+  private drawDiamond(x: number, y: number, color: number): void {
+    this.brush.fillStyle(color, 1)
+    this.brush.beginPath()
+    this.brush.moveTo(x, y) // Top point
+    this.brush.lineTo(x + TILE_WIDTH / 2, y + TILE_HEIGHT / 2) // Right point
+    this.brush.lineTo(x, y + TILE_HEIGHT) // Bottom point
+    this.brush.lineTo(x - TILE_WIDTH / 2, y + TILE_HEIGHT / 2) // Left point
+    this.brush.closePath()
+    this.brush.fillPath()
+  }
+
+  /**
+   * A road piece: a square in the middle of the tile with an arm towards
+   * each joining neighbour. Shapes are laid out in grid space, then projected.
+   */
+  private drawRoad(gridX: number, gridY: number, style: RoadStyle, left: number, top: number): void {
+    const half = style.width / 2
+    const centerX = gridX + 0.5
+    const centerY = gridY + 0.5
+    const project = (pointX: number, pointY: number): Phaser.Math.Vector2 => {
+      const { x, y } = gridToScreen(pointX, pointY)
+      return new Phaser.Math.Vector2(x - left, y - top)
+    }
+
+    this.brush.fillStyle(style.color, 1)
+    this.brush.fillPoints([
+      project(centerX - half, centerY - half),
+      project(centerX + half, centerY - half),
+      project(centerX + half, centerY + half),
+      project(centerX - half, centerY + half)
+    ], true)
+
+    const joins = STRAIGHT.filter(([dx, dy]) => isRoadTerrain(this.getTerrain(gridX + dx, gridY + dy)))
+    for (const [dx, dy] of DIAGONAL) {
+      if (!isRoadTerrain(this.getTerrain(gridX + dx, gridY + dy))) continue
+      if (joins.some(([jx, jy]) => (jx === dx && jy === 0) || (jx === 0 && jy === dy))) continue
+      joins.push([dx, dy])
+    }
+
+    for (const [dx, dy] of joins) {
+      // Half way to the neighbour's centre, as wide as the road across the direction
+      const length = Math.hypot(dx, dy)
+      const sideX = (-dy / length) * half
+      const sideY = (dx / length) * half
+      const endX = centerX + dx / 2
+      const endY = centerY + dy / 2
+      this.brush.fillPoints([
+        project(centerX + sideX, centerY + sideY),
+        project(endX + sideX, endY + sideY),
+        project(endX - sideX, endY - sideY),
+        project(centerX - sideX, centerY - sideY)
+      ], true)
+    }
+  }
+
+  /**
+   * Top-left corner of a chunk's screen bounding box (container-local)
+   * The chunk is a diamond; its box spans CHUNK_SIZE tiles in both directions
+   */
+  private getChunkOrigin(chunk: Chunk): { left: number, top: number } {
+    const originX = chunk.chunkX * CHUNK_SIZE
+    const originY = chunk.chunkY * CHUNK_SIZE
+    return {
+      left: (originX - originY - CHUNK_SIZE) * (TILE_WIDTH / 2),
+      top: (originX + originY) * (TILE_HEIGHT / 2)
+    }
+  }
+}
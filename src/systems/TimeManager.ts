@@ -17,6 +17,13 @@ export class TimeManager {
     this.time = (this.elapsed % TIME_CONFIG.dayDuration) / TIME_CONFIG.dayDuration
   }
 
+  /**
+   * Days since the game started, with the fraction of the current day
+   */
+  public getDays(): number {
+    return this.elapsed / TIME_CONFIG.dayDuration
+  }
+
   /**
    * Returns current cycle progress (0.0 - 1.0)
    */
@@ -49,6 +56,13 @@ export class TimeManager {
     return 0
   }
 
+  /**
+   * True from dusk until dawn
+   */
+  public isNight(): boolean {
+    return this.time >= TIME_CONFIG.dusk || this.time < TIME_CONFIG.dawn
+  }
+
   /**
    * Returns intensity for lights (0.0 = Off/Dim, 1.0 = Full Bright)
    */
@@ -0,0 +1,287 @@
+import Phaser from 'phaser'
+import { ASSETS, TILE_WIDTH, TILE_HEIGHT, WOLF_CONFIG, TerrainType } from '@/config/constants'
+import { BUILDING_DEFINITIONS } from '@/config/buildings'
+import { gridToScreen, screenToGrid } from '@/utils/isometric'
+import { isTreeTerrain } from '@/utils/terrain'
+import type { SeededRandom } from '@/utils/random'
+import type { GridBounds } from './ChunkManager'
+import type { Building, GridPoint, Villager, Wolf } from '@/types/game'
+
+export interface WolfEvents {
+  getTerrain: (gridX: number, gridY: number) => TerrainType
+  isWalkable: (gridX: number, gridY: number) => boolean
+  getLoadedBounds: () => GridBounds | null
+  isNight: () => boolean
+  findPrey: (gridX: number, gridY: number, radius: number) => Villager | null  // Nearest villager outdoors
+  onCatch: (villager: Villager) => void
+}
+
+/**
+ * WolfManager
+ * Wolves come out of deep forest after dusk, roam about and chase villagers
+ * they catch outdoors. A chase ends when the villager gets inside, the wolf
+ * tires or the chase comes too close to a watchtower. At dawn the wolves
+ * slip back into the forest.
+ */
+export class WolfManager {
+  private scene: Phaser.Scene
+  private container: Phaser.GameObjects.Container
+  private random: SeededRandom
+  private events: WolfEvents
+  private wolves: Wolf[] = []
+  private deterrents: Set<Building> = new Set()
+  private spawnTimer = 0
+
+  constructor(scene: Phaser.Scene, container: Phaser.GameObjects.Container, random: SeededRandom, events: WolfEvents) {
+    this.scene = scene
+    this.container = container
+    this.random = random
+    this.events = events
+  }
+
+  /**
+   * A finished building that keeps wolves away
+   */
+  public addDeterrent(building: Building): void {
+    if (BUILDING_DEFINITIONS[building.type].deterRadius) this.deterrents.add(building)
+  }
+
+  public removeDeterrent(building: Building): void {
+    this.deterrents.delete(building)
+  }
+
+  /**
+   * True while a wolf is after this villager
+   */
+  public isHunted(villager: Villager): boolean {
+    return this.wolves.some(wolf => wolf.prey === villager)
+  }
+
+  /**
+   * Tile of the wolf chasing a villager, if any
+   */
+  public getHunterTile(villager: Villager): GridPoint | null {
+    const wolf = this.wolves.find(other => other.prey === villager)
+    return wolf ? this.getTile(wolf.sprite) : null
+  }
+
+  /**
+   * The villager is gone (caught, moved away or died): stop chasing them
+   */
+  public releasePrey(villager: Villager): void {
+    for (const wolf of this.wolves) {
+      if (wolf.prey === villager) this.stopChase(wolf)
+    }
+  }
+
+  /**
+   * Spawn at night, retreat at dawn, and move every wolf
+   */
+  public update(delta: number): void {
+    if (!this.events.isNight()) {
+      if (this.wolves.length > 0) this.retreat()
+      return
+    }
+
+    this.spawnTimer += delta
+    if (this.spawnTimer >= WOLF_CONFIG.spawnInterval) {
+      this.spawnTimer = 0
+      this.trySpawn()
+    }
+
+    for (const wolf of this.wolves) {
+      if (wolf.state === 'chasing') {
+        this.chase(wolf, delta)
+      } else if (wolf.state === 'roaming') {
+        this.roam(wolf)
+      } else {
+        wolf.roamTimer -= delta
+        if (wolf.roamTimer <= 0) this.pickRoamTarget(wolf)
+      }
+    }
+  }
+
+  /**
+   * Look for a tile of deep forest away from any watchtower
+   */
+  private trySpawn(): void {
+    if (this.wolves.length >= WOLF_CONFIG.maxWolves) return
+    const bounds = this.events.getLoadedBounds()
+    if (!bounds) return
+
+    for (let i = 0; i < WOLF_CONFIG.spawnSamples; i++) {
+      const gridX = this.random.between(bounds.minX, bounds.maxX)
+      const gridY = this.random.between(bounds.minY, bounds.maxY)
+      if (this.isDeepForest(gridX, gridY) && !this.isDeterred({ gridX, gridY })) {
+        this.spawn(gridX, gridY)
+        return
+      }
+    }
+  }
+
+  private isDeepForest(gridX: number, gridY: number): boolean {
+    const radius = WOLF_CONFIG.deepForest
+    for (let dy = -radius; dy <= radius; dy++) {
+      for (let dx = -radius; dx <= radius; dx++) {
+        if (!isTreeTerrain(this.events.getTerrain(gridX + dx, gridY + dy))) return false
+      }
+    }
+    return true
+  }
+
+  private spawn(gridX: number, gridY: number): void {
+    const { x, y } = this.getFeetPosition(gridX, gridY)
+    const sprite = this.scene.add.image(x, y, ASSETS.VILLAGERS.WOLF)
+    sprite.setOrigin(0.5, 1)
+    sprite.setScale((TILE_WIDTH * WOLF_CONFIG.scale) / sprite.width)
+    sprite.setDepth(sprite.y)
+    sprite.setAlpha(0)
+    this.container.add(sprite)
+    this.scene.tweens.add({ targets: sprite, alpha: 1, duration: 1000 })
+
+    this.wolves.push({
+      sprite,
+      state: 'idle',
+      targetX: x,
+      targetY: y,
+      speed: WOLF_CONFIG.speed,
+      roamTimer: this.random.range(WOLF_CONFIG.idleTime[0], WOLF_CONFIG.idleTime[1]),
+      prey: null,
+      chaseTimer: 0
+    })
+    console.log(`A wolf came out of the forest at (${gridX}, ${gridY})`)
+  }
+
+  /**
+   * Daylight: every wolf fades back into the forest
+   */
+  private retreat(): void {
+    for (const wolf of this.wolves) {
+      this.scene.tweens.add({
+        targets: wolf.sprite,
+        alpha: 0,
+        duration: 1000,
+        onComplete: () => wolf.sprite.destroy()
+      })
+    }
+    this.wolves = []
+    this.spawnTimer = 0
+    console.log('Wolves retreat into the forest at dawn')
+  }
+
+  /**
+   * Head for a random walkable tile nearby that no watchtower guards
+   */
+  private pickRoamTarget(wolf: Wolf): void {
+    const { gridX, gridY } = this.getTile(wolf.sprite)
+    for (let attempt = 0; attempt < 8; attempt++) {
+      const targetX = gridX + this.random.between(-WOLF_CONFIG.roamRadius, WOLF_CONFIG.roamRadius)
+      const targetY = gridY + this.random.between(-WOLF_CONFIG.roamRadius, WOLF_CONFIG.roamRadius)
+      if (!this.events.isWalkable(targetX, targetY) || this.isDeterred({ gridX: targetX, gridY: targetY })) continue
+
+      const target = this.getFeetPosition(targetX, targetY)
+      wolf.targetX = target.x
+      wolf.targetY = target.y
+      wolf.speed = WOLF_CONFIG.speed
+      wolf.state = 'roaming'
+      return
+    }
+    this.rest(wolf, WOLF_CONFIG.idleTime[0])
+  }
+
+  /**
+   * Walk to the roam target, sniffing for villagers on the way
+   */
+  private roam(wolf: Wolf): void {
+    const { gridX, gridY } = this.getTile(wolf.sprite)
+    const prey = this.events.findPrey(gridX, gridY, WOLF_CONFIG.senseRadius)
+    if (prey && !this.isDeterred(this.getTile(prey.sprite))) {
+      wolf.prey = prey
+      wolf.state = 'chasing'
+      wolf.speed = WOLF_CONFIG.chaseSpeed
+      wolf.chaseTimer = WOLF_CONFIG.chaseDuration
+      console.log(`A wolf is chasing a villager at (${gridX}, ${gridY})`)
+      return
+    }
+
+    const distance = this.moveTowards(wolf, wolf.targetX, wolf.targetY)
+    if (distance === null || distance <= wolf.speed) {
+      this.rest(wolf, this.random.range(WOLF_CONFIG.idleTime[0], WOLF_CONFIG.idleTime[1]))
+    }
+  }
+
+  private chase(wolf: Wolf, delta: number): void {
+    const prey = wolf.prey
+    wolf.chaseTimer -= delta
+    if (!prey || prey.state === 'inside' || wolf.chaseTimer <= 0 || this.isDeterred(this.getTile(prey.sprite))) {
+      this.stopChase(wolf)
+      return
+    }
+
+    const distance = this.moveTowards(wolf, prey.sprite.x, prey.sprite.y)
+    if (distance !== null && distance <= WOLF_CONFIG.catchDistance) {
+      this.stopChase(wolf)
+      this.rest(wolf, WOLF_CONFIG.restAfterCatch)
+      this.events.onCatch(prey)
+    }
+  }
+
+  private stopChase(wolf: Wolf): void {
+    wolf.prey = null
+    this.rest(wolf, WOLF_CONFIG.idleTime[0])
+  }
+
+  private rest(wolf: Wolf, duration: number): void {
+    wolf.state = 'idle'
+    wolf.roamTimer = duration
+  }
+
+  /**
+   * Step straight towards a point; wolves don't swim or walk through walls
+   * @returns Distance left before the step, or null when the way is blocked
+   */
+  private moveTowards(wolf: Wolf, x: number, y: number): number | null {
+    const dx = x - wolf.sprite.x
+    const dy = y - wolf.sprite.y
+    const distance = Math.sqrt(dx * dx + dy * dy)
+    if (distance <= wolf.speed) {
+      wolf.sprite.setPosition(x, y)
+      return distance
+    }
+
+    const nextX = wolf.sprite.x + (dx / distance) * wolf.speed
+    const nextY = wolf.sprite.y + (dy / distance) * wolf.speed
+    const next = this.getTile({ x: nextX, y: nextY })
+    if (!this.events.isWalkable(next.gridX, next.gridY)) return null
+
+    wolf.sprite.setPosition(nextX, nextY)
+    wolf.sprite.setFlipX(dx < 0)
+    wolf.sprite.setDepth(wolf.sprite.y)
+    return distance
+  }
+
+  /**
+   * Within reach of a finished watchtower (or other deterrent)
+   */
+  private isDeterred({ gridX, gridY }: GridPoint): boolean {
+    for (const building of this.deterrents) {
+      const definition = BUILDING_DEFINITIONS[building.type]
+      const centerX = building.gridX + definition.size / 2
+      const centerY = building.gridY + definition.size / 2
+      if (Math.hypot(gridX + 0.5 - centerX, gridY + 0.5 - centerY) <= (definition.deterRadius ?? 0)) return true
+    }
+    return false
+  }
+
+  /**
+   * Tile under a sprite's feet (sprites stand one tile height below the tile centre)
+   */
+  private getTile(position: { x: number, y: number }): GridPoint {
+    return screenToGrid(position.x, position.y - TILE_HEIGHT)
+  }
+
+  private getFeetPosition(gridX: number, gridY: number): { x: number, y: number } {
+    const { x, y } = gridToScreen(gridX + 0.5, gridY + 0.5)
+    return { x, y: y + TILE_HEIGHT }
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * WorkReservations
+ * Tracks which worker has claimed which work tile (a tree to chop), so two
+ * workers never walk to the same target. Each worker holds at most one
+ * claim; claiming a new tile releases the previous one.
+ */
+export class WorkReservations<Owner> {
+  private claims: Map<string, Owner> = new Map() // Tile "x,y" -> owner
+  private owners: Map<Owner, string> = new Map() // Owner -> tile "x,y"
+
+  /**
+   * Claim a tile for an owner
+   * @returns False if someone else already holds it
+   */
+  public claim(owner: Owner, gridX: number, gridY: number): boolean {
+    const key = `${gridX},${gridY}`
+    const holder = this.claims.get(key)
+    if (holder !== undefined && holder !== owner) return false
+
+    this.release(owner)
+    this.claims.set(key, owner)
+    this.owners.set(owner, key)
+    return true
+  }
+
+  /**
+   * Drop an owner's claim (work done, cancelled, or the worker is gone)
+   */
+  public release(owner: Owner): void {
+    const key = this.owners.get(owner)
+    if (key === undefined) return
+    this.claims.delete(key)
+    this.owners.delete(owner)
+  }
+
+  /**
+   * Drop any claim on a tile (the work target itself went away)
+   */
+  public releaseTile(gridX: number, gridY: number): void {
+    const key = `${gridX},${gridY}`
+    const owner = this.claims.get(key)
+    if (owner === undefined) return
+    this.claims.delete(key)
+    this.owners.delete(owner)
+  }
+
+  public isClaimed(gridX: number, gridY: number): boolean {
+    return this.claims.has(`${gridX},${gridY}`)
+  }
+
+  public isClaimedBy(owner: Owner, gridX: number, gridY: number): boolean {
+    return this.claims.get(`${gridX},${gridY}`) === owner
+  }
+}
@@ -2,35 +2,161 @@
  * Game Type Definitions
  */
 
-export type BuildingType = 'house' | 'teepee' | 'villager'
+export type BuildingType = 'house' | 'teepee' | 'hut' | 'stockpile' | 'storehouse' | 'sawmill' | 'stonemason' | 'farm' | 'forester' | 'quarry' | 'watchtower' | 'hunter'
 
-export type VillagerState = 'idle' | 'walking' | 'working'
+// What the build menu places: a building or a settler
+export type PlacementType = BuildingType | 'villager'
+
+// Menu tools that act on what already stands (or, for roads, on the ground)
+export type ToolType = 'demolish' | 'move' | 'road'
+
+export type MenuItem = PlacementType | ToolType
+
+export type VillagerState = 'idle' | 'walking' | 'working' | 'inside'
+
+export type LifeStage = 'child' | 'adult' | 'elder'
+
+// What a villager has decided to do, picked by the needs layer
+export type VillagerActivity = 'work' | 'eat' | 'sleep' | 'warmUp'
+
+export type TerrainObjectType = 'tree' | 'rocks' | 'sapling' | 'youngTree'
+
+// Tiles workers go to for raw materials
+export type WorkTileKind = 'tree' | 'rocks' | 'forage'
+
+export type ResourceType = 'wood' | 'stone' | 'food' | 'planks' | 'berries' | 'blocks' | 'meat' | 'hides'
+
+// Amounts of several resources at once (building costs, recipes)
+export type ResourceCost = Partial<Record<ResourceType, number>>
+
+export type JobType = 'woodcutting' | 'gathering' | 'hauling' | 'building' | 'quarrying' | 'production' | 'farming' | 'forestry' | 'hunting'
+
+export type Profession = 'woodcutter' | 'gatherer' | 'hauler' | 'builder' | 'quarrier' | 'sawyer' | 'mason' | 'farmer' | 'forester' | 'hunter'
+
+// Where a job is in its lifecycle
+export type JobStage = 'toSite' | 'working' | 'returning'
+
+// Shown above production buildings
+export type ProductionStatus = 'idle' | 'working' | 'blocked'
+
+export interface TerrainRule {
+  walkable: boolean                   // Villagers can walk across the tile
+  buildable: boolean                  // Buildings can be placed on the tile
+  object: TerrainObjectType | null    // Sprite standing on the tile (trees are choppable)
+  moveCost: number                    // Pathfinding cost of entering the tile (1 = meadow)
+  forage?: boolean                    // Gatherers pick berries here
+  objectTint?: number                 // Tint applied to the object sprite
+  objectScale?: number                // Multiplier on top of TERRAIN_OBJECT_SCALES
+  speed?: number                      // Walking speed multiplier (default 1)
+  road?: RoadStyle                    // Drawn as a path joining neighbouring road tiles
+}
+
+export interface RoadStyle {
+  color: number
+  width: number                       // Fraction of a tile
+}
 
 export interface Building {
   sprite: Phaser.GameObjects.Image
   type: BuildingType
   gridX: number
   gridY: number
-  occupied: boolean
+  residents: Villager[]  // Household living here, up to the building's capacity
+  constructed: boolean // False while still a construction site
   emptyIndicator?: Phaser.GameObjects.Container // Use container for icon+text
+  statusIndicator?: Phaser.GameObjects.Container // Production status icon
+  lights?: Phaser.GameObjects.Image[]
+}
+
+export interface ConstructionSite {
+  building: Building
+  required: ResourceCost    // Materials committed when the site was placed
+  delivered: ResourceCost   // Materials already on site
+  workDone: number          // ms of construction work done
+  workRequired: number
+  jobs: Set<Job>            // Open hauling/building jobs for this site
+  cancelled: boolean
+  scaffolding: Phaser.GameObjects.Graphics
+  progressBar: Phaser.GameObjects.Graphics
+}
+
+export interface CarriedLoad {
+  resource: ResourceType
+  amount: number
+}
+
+// Goods taken out of storage, waiting there to be collected
+export interface Pickup {
+  from: GridPoint
+  load: CarriedLoad
+}
+
+/**
+ * What to do: posted to the work queue, or found by a worker on their own
+ */
+export interface JobRequest {
+  type: JobType
+  gridX: number                 // Work site
+  gridY: number
+  priority?: number             // Overrides the job type's default
+  claimSite?: boolean           // Reserve the site so no other job targets it
+  load?: CarriedLoad            // Hauling and hunting: what is carried away from the site
+  worker?: Villager             // Only this villager may take the job
+  workDuration?: number         // Overrides the job type's work time
+  dropoff?: GridPoint           // Where the load goes (default: nearest storage with space)
+  onWorked?: (job: Job) => void // Called when the work at the site is done, before the load is taken
+  onDeliver?: (load: CarriedLoad) => void  // Receives the load instead of storage
+  onDone?: (job: Job) => void   // Called once the job is fully finished
+  onCancel?: (job: Job) => void // Called if the job is dropped before it finished
+}
+
+export interface Job extends JobRequest {
+  id: number
+  priority: number
+  posted: boolean               // Came from the work queue (goes back there if abandoned)
+  stage: JobStage
+  workTimer: number
+  assignee: Villager | null
+}
+
+/**
+ * Needs run from 0 (desperate) to 1 (fully satisfied)
+ */
+export interface VillagerNeeds {
+  food: number
+  rest: number
+  warmth: number
+  distress: number  // ms spent with a need fully unmet; villagers leave when it runs out
+}
+
+export interface VillagerLife {
+  age: number       // Game days
+  stage: LifeStage
+  lifespan: number  // Age at which the villager dies of old age
 }
 
 export interface Villager {
   sprite: Phaser.GameObjects.Image
-  type: BuildingType
   state: VillagerState
+  activity: VillagerActivity
+  needs: VillagerNeeds
+  life: VillagerLife
+  profession: Profession | null  // Null until the villager has a home (and for children)
+  home: Building | null
+  workplace: Building | null     // Production building or farm the villager was hired into
+  job: Job | null
+  carrying: CarriedLoad | null
   targetX: number
   targetY: number
   targetGridX: number
   targetGridY: number
-  homeX: number
-  homeY: number
   speed: number
   animFrame: number
   animTimer: number
-  workTimer: number
-  hasWood: boolean
-  assignedBuilding?: Building
+  path: GridPoint[]      // Waypoints to the target, start tile excluded
+  pathIndex: number      // Next waypoint to walk to
+  pathVersion: number    // Pathfinder world version the path was checked against
+  pathRetryTimer: number // ms until the next attempt when no path was found
 }
 
 export interface CutTree {
@@ -46,16 +172,35 @@ export interface TerrainObjectData {
   y: number
 }
 
+export interface GridPoint {
+  gridX: number
+  gridY: number
+}
+
 export interface WorldPosition {
   worldX: number
   worldY: number
 }
 
+export type AnimalSpecies = 'deer' | 'boar'
+
+export interface Animal {
+  sprite: Phaser.GameObjects.Image
+  species: AnimalSpecies
+  state: 'grazing' | 'walking'
+  targetX: number
+  targetY: number
+  speed: number
+  grazeTimer: number          // ms until a grazing animal moves on
+}
+
 export interface Wolf {
   sprite: Phaser.GameObjects.Image
-  state: 'idle' | 'roaming'
+  state: 'idle' | 'roaming' | 'chasing'
   targetX: number
   targetY: number
   speed: number
-  roamTimer: number
+  roamTimer: number           // ms until an idle wolf moves on
+  prey: Villager | null       // Villager being chased
+  chaseTimer: number          // ms until the wolf gives up the chase
 }
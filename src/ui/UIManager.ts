@@ -1,22 +1,30 @@
 import Phaser from 'phaser'
-import { UI_CONFIG, ASSETS, TIME_CONFIG } from '@/config/constants'
-import { BuildingType } from '@/types/game'
+import { UI_CONFIG, TIME_CONFIG, RESOURCE_CONFIG, RESOURCE_TREND_THRESHOLD } from '@/config/constants'
+import { BUILD_MENU, getMenuEntry } from '@/config/buildings'
+import { MenuItem, ProductionStatus, ResourceType, ResourceCost } from '@/types/game'
+import { getSeedUrl } from '@/utils/seed'
 
 export interface UIEvents {
-  onBuildSelect: (type: BuildingType) => void
+  onBuildSelect: (item: MenuItem) => void
 }
 
 export class UIManager {
   private scene: Phaser.Scene
   private events: UIEvents
   
-  private woodText: Phaser.GameObjects.Text | null = null
+  // Resource bar: one amount + trend arrow per resource
+  private resourceTexts: Map<ResourceType, Phaser.GameObjects.Text> = new Map()
+  private trendTexts: Map<ResourceType, Phaser.GameObjects.Text> = new Map()
+  private seedText: Phaser.GameObjects.Text | null = null
+  private populationText: Phaser.GameObjects.Text | null = null
   private menuBg: Phaser.GameObjects.Graphics | null = null
   
-  // Store button containers for easy repositioning
-  private houseButtonContainer: Phaser.GameObjects.Container | null = null
-  private teepeeButtonContainer: Phaser.GameObjects.Container | null = null
-  private villagerButtonContainer: Phaser.GameObjects.Container | null = null
+  // Build menu buttons in BUILD_MENU order, kept for repositioning
+  private buttons: Phaser.GameObjects.Container[] = []
+  private buttonIcons: Map<MenuItem, Phaser.GameObjects.Image> = new Map()
+  private affordable: Map<MenuItem, boolean> = new Map()
+  private stock: Readonly<Record<ResourceType, number>> | null = null // Last known, for tooltips
+  private tooltip: Phaser.GameObjects.Text | null = null
   
   // Confirmation Modal
   private confirmContainer: Phaser.GameObjects.Container | null = null
@@ -44,13 +52,42 @@ export class UIManager {
   }
 
   private createResourceDisplay(): void {
-    this.woodText = this.scene.add.text(20, 20, '🪵 Dřevo: 0', {
-      font: '24px monospace',
+    for (const [type, config] of Object.entries(RESOURCE_CONFIG) as [ResourceType, typeof RESOURCE_CONFIG[ResourceType]][]) {
+      const text = this.scene.add.text(0, 20, `${config.icon} ${config.label}: ${config.initial}`, {
+        font: '18px monospace',
+        color: UI_CONFIG.colors.textWhite,
+        backgroundColor: UI_CONFIG.colors.textBackground,
+        padding: { x: 8, y: 5 }
+      })
+      const trend = this.scene.add.text(0, 20, UI_CONFIG.resourceBar.trendFlat, {
+        font: '18px monospace',
+        color: UI_CONFIG.colors.trendFlat,
+        backgroundColor: UI_CONFIG.colors.textBackground,
+        padding: { x: 4, y: 5 }
+      })
+      this.resourceTexts.set(type, text)
+      this.trendTexts.set(type, trend)
+      this.container.add([text, trend])
+    }
+
+    // World seed (click copies a shareable link)
+    this.seedText = this.scene.add.text(20, 60, '🌍 Svět: -', {
+      font: '16px monospace',
+      color: UI_CONFIG.colors.textWhite,
+      backgroundColor: UI_CONFIG.colors.textBackground,
+      padding: { x: 10, y: 4 }
+    })
+    this.seedText.setInteractive({ useHandCursor: true })
+    this.container.add(this.seedText)
+
+    this.populationText = this.scene.add.text(20, 95, '👥 Obyvatelé: 0/0', {
+      font: '16px monospace',
       color: UI_CONFIG.colors.textWhite,
       backgroundColor: UI_CONFIG.colors.textBackground,
-      padding: { x: 10, y: 5 }
+      padding: { x: 10, y: 4 }
     })
-    this.container.add(this.woodText)
+    this.container.add(this.populationText)
+    this.layoutResourceBar()
   }
 
   private createBuildingMenu(): void {
@@ -63,25 +100,27 @@ export class UIManager {
     this.menuBg.fillRect(0, height - UI_CONFIG.menuBarHeight, width, UI_CONFIG.menuBarHeight)
     this.container.add(this.menuBg)
 
-    // Buttons
+    // One button per menu entry
     const menuY = height - UI_CONFIG.menuBarHeight / 2
-    const firstButtonX = UI_CONFIG.firstButtonX
-    
-    // House Button
-    this.houseButtonContainer = this.createButton(firstButtonX, menuY, ASSETS.BUILDINGS.HOUSE, 'house')
-    
-    // Teepee Button
-    const teepeeButtonX = firstButtonX + UI_CONFIG.buttonSpacing
-    this.teepeeButtonContainer = this.createButton(teepeeButtonX, menuY, ASSETS.BUILDINGS.TEEPEE, 'teepee')
+    this.buttons = BUILD_MENU.map((type, index) =>
+      this.createButton(UI_CONFIG.firstButtonX + UI_CONFIG.buttonSpacing * index, menuY, getMenuEntry(type).icon, type)
+    )
+    this.container.add(this.buttons)
 
-    // Villager Button
-    const villagerButtonX = teepeeButtonX + UI_CONFIG.buttonSpacing
-    this.villagerButtonContainer = this.createButton(villagerButtonX, menuY, ASSETS.UI.VILLAGER_ICON, 'villager')
-    
-    this.container.add([this.houseButtonContainer, this.teepeeButtonContainer, this.villagerButtonContainer])
+    // Shared tooltip for the building buttons
+    this.tooltip = this.scene.add.text(0, 0, '', {
+      font: '14px monospace',
+      color: UI_CONFIG.colors.textWhite,
+      backgroundColor: UI_CONFIG.colors.tooltipBackground,
+      padding: { x: 8, y: 4 }
+    })
+    this.tooltip.setOrigin(0.5, 1)
+    this.tooltip.setDepth(UI_CONFIG.depths.text)
+    this.tooltip.setVisible(false)
+    this.container.add(this.tooltip)
   }
 
-  private createButton(x: number, y: number, texture: string, type: BuildingType): Phaser.GameObjects.Container {
+  private createButton(x: number, y: number, texture: string, type: MenuItem): Phaser.GameObjects.Container {
     const container = this.scene.add.container(x, y)
     
     // Background
@@ -108,20 +147,81 @@ export class UIManager {
     
     container.on('pointerdown', (pointer: Phaser.Input.Pointer) => {
       pointer.event.stopPropagation()
+      if (!this.isAffordable(type)) return // Greyed out
       this.events.onBuildSelect(type)
     })
     
     container.on('pointerover', () => {
-      icon.setTint(UI_CONFIG.colors.hoverTint)
+      if (this.isAffordable(type)) icon.setTint(UI_CONFIG.colors.hoverTint)
+      this.showTooltip(type, container)
     })
     
     container.on('pointerout', () => {
-      icon.clearTint()
+      if (this.isAffordable(type)) icon.clearTint()
+      this.tooltip?.setVisible(false)
     })
-    
+
+    this.buttonIcons.set(type, icon)
     return container
   }
 
+  /**
+   * Grey out the building buttons the village can't pay for
+   */
+  public updateBuildingAvailability(stock: Readonly<Record<ResourceType, number>>): void {
+    this.stock = stock
+
+    for (const [type, icon] of this.buttonIcons) {
+      const affordable = this.getMissing(getMenuEntry(type).cost).length === 0
+      this.affordable.set(type, affordable)
+
+      const container = icon.parentContainer
+      if (affordable) {
+        icon.clearTint()
+        container?.setAlpha(1)
+      } else {
+        icon.setTint(UI_CONFIG.colors.buttonDisabled)
+        container?.setAlpha(UI_CONFIG.alphas.buttonDisabled)
+      }
+    }
+  }
+
+  private isAffordable(type: MenuItem): boolean {
+    return this.affordable.get(type) ?? true
+  }
+
+  /**
+   * Building name and cost above a button; missing resources when unaffordable
+   */
+  private showTooltip(type: MenuItem, button: Phaser.GameObjects.Container): void {
+    if (!this.tooltip) return
+
+    const config = getMenuEntry(type)
+    const lines: string[] = [config.label]
+    const cost = formatCost(config.cost)
+    if (cost) lines.push(`Cena: ${cost}`)
+
+    const missing = this.getMissing(config.cost)
+    if (missing.length > 0) {
+      lines.push(`Chybí: ${missing.map(([resource, amount]) => `${amount} ${RESOURCE_CONFIG[resource].icon}`).join(' ')}`)
+    }
+
+    this.tooltip.setText(lines.join('\n'))
+    this.tooltip.setPosition(Math.max(button.x, this.tooltip.width / 2 + 4), button.y - UI_CONFIG.buttonSize / 2 - 8)
+    this.tooltip.setVisible(true)
+  }
+
+  /**
+   * Resources short of a cost, with how much is missing
+   */
+  private getMissing(cost: ResourceCost): [ResourceType, number][] {
+    if (!this.stock) return []
+    const stock = this.stock
+    return (Object.entries(cost) as [ResourceType, number][])
+      .filter(([resource, amount]) => stock[resource] < amount)
+      .map(([resource, amount]) => [resource, amount - stock[resource]])
+  }
+
   /**
    * Show a confirmation modal at screen coordinates
    * @param x Screen X
@@ -129,7 +229,7 @@ export class UIManager {
    * @param onConfirm Callback if confirmed
    * @param onCancel Callback if cancelled
    */
-  public showConfirmation(x: number, y: number, onConfirm: () => void, onCancel: () => void): void {
+  public showConfirmation(x: number, y: number, onConfirm: () => void, onCancel: () => void, label: string = 'Obsadit?'): void {
     // Destroy existing modal if any
     this.hideConfirmation()
 
@@ -142,8 +242,8 @@ export class UIManager {
     bg.fillStyle(0x000000, 0.8)
     bg.fillRoundedRect(-60, -30, 120, 60, 8)
     
-    // Text "Obsadit?"
-    const text = this.scene.add.text(0, -20, 'Obsadit?', { font: '14px monospace', color: '#fff' })
+    // Question, "Obsadit?" unless the caller asks something else
+    const text = this.scene.add.text(0, -20, label, { font: '14px monospace', color: '#fff' })
     text.setOrigin(0.5)
 
     // Check Button (Green Tick)
@@ -261,16 +361,32 @@ export class UIManager {
    * @param depth Depth to render at
    */
   public createEmptyBuildingIndicator(x: number, y: number, depth: number): Phaser.GameObjects.Container {
+    return this.createBuildingIndicator(x, y, depth, UI_CONFIG.emptyBuildingIndicator.text || '?', UI_CONFIG.colors.emptyBuildingBg)
+  }
+
+  /**
+   * Production status marker, same style as the empty-building one
+   */
+  public createStatusIndicator(x: number, y: number, depth: number, status: ProductionStatus): Phaser.GameObjects.Container {
+    const colors: Record<ProductionStatus, number> = {
+      idle: UI_CONFIG.colors.statusIdle,
+      working: UI_CONFIG.colors.statusWorking,
+      blocked: UI_CONFIG.colors.statusBlocked
+    }
+    return this.createBuildingIndicator(x, y, depth, UI_CONFIG.statusIndicator[status], colors[status])
+  }
+
+  private createBuildingIndicator(x: number, y: number, depth: number, symbol: string, color: number): Phaser.GameObjects.Container {
     const container = this.scene.add.container(x, y)
     const size = UI_CONFIG.emptyBuildingIndicator.size || 24
     
     // Background circle
     const bg = this.scene.add.graphics()
-    bg.fillStyle(UI_CONFIG.colors.emptyBuildingBg, UI_CONFIG.alphas.emptyBuildingBg)
+    bg.fillStyle(color, UI_CONFIG.alphas.emptyBuildingBg)
     bg.fillCircle(0, 0, size / 2)
     
     // Text
-    const text = this.scene.add.text(0, 0, UI_CONFIG.emptyBuildingIndicator.text || '?', { 
+    const text = this.scene.add.text(0, 0, symbol, { 
       font: '16px monospace', 
       color: '#ffffff',
       fontStyle: 'bold'
@@ -292,10 +408,86 @@ export class UIManager {
     }
   }
 
-  public updateWoodCount(count: number): void {
-    if (this.woodText) {
-      this.woodText.setText(`🪵 Dřevo: ${count}`)
+  /**
+   * Show a resource's current amount in the resource bar
+   */
+  public updateResource(type: ResourceType, amount: number, capacity: number): void {
+    const text = this.resourceTexts.get(type)
+    if (!text) return
+
+    const config = RESOURCE_CONFIG[type]
+    text.setText(`${config.icon} ${config.label}: ${Math.floor(amount)}/${capacity}`)
+    this.layoutResourceBar()
+  }
+
+  /**
+   * Show whether a resource is growing or shrinking
+   * @param netRate Income minus expense per minute
+   */
+  public updateResourceTrend(type: ResourceType, netRate: number): void {
+    const trend = this.trendTexts.get(type)
+    if (!trend) return
+
+    if (netRate > RESOURCE_TREND_THRESHOLD) {
+      trend.setText(UI_CONFIG.resourceBar.trendUp).setColor(UI_CONFIG.colors.trendUp)
+    } else if (netRate < -RESOURCE_TREND_THRESHOLD) {
+      trend.setText(UI_CONFIG.resourceBar.trendDown).setColor(UI_CONFIG.colors.trendDown)
+    } else {
+      trend.setText(UI_CONFIG.resourceBar.trendFlat).setColor(UI_CONFIG.colors.trendFlat)
+    }
+  }
+
+  /**
+   * Line the resource entries up left to right (widths change with the numbers),
+   * wrapping to another row before the clock. The seed and population lines
+   * follow below the last row.
+   */
+  private layoutResourceBar(width: number = this.scene.scale.width): void {
+    const left = 20
+    const right = width - (TIME_CONFIG.uiSize || 50) - 40
+    let x = left
+    let y = 20
+    let rowHeight = 0
+    for (const [type, text] of this.resourceTexts) {
+      const trend = this.trendTexts.get(type)!
+      const entryWidth = text.width + trend.width
+      if (x > left && x + entryWidth > right) {
+        x = left
+        y += rowHeight + UI_CONFIG.resourceBar.rowSpacing
+      }
+      text.setPosition(x, y)
+      trend.setPosition(x + text.width, y)
+      x += entryWidth + UI_CONFIG.resourceBar.spacing
+      rowHeight = Math.max(rowHeight, text.height)
     }
+
+    const bottom = y + rowHeight
+    this.seedText?.setY(bottom + 9)
+    this.populationText?.setY(bottom + 44)
+  }
+
+  /**
+   * Show how many villagers live in the village and how many homes have room for
+   */
+  public updatePopulation(population: number, capacity: number): void {
+    this.populationText?.setText(`👥 Obyvatelé: ${population}/${capacity}`)
+  }
+
+  /**
+   * Show the world seed in the HUD
+   * Clicking it copies a link that opens the same world
+   */
+  public updateWorldSeed(seed: number): void {
+    if (!this.seedText) return
+
+    this.seedText.setText(`🌍 Svět: ${seed}`)
+    this.seedText.removeAllListeners('pointerdown')
+    this.seedText.on('pointerdown', (pointer: Phaser.Input.Pointer) => {
+      pointer.event.stopPropagation()
+      navigator.clipboard?.writeText(getSeedUrl(seed))
+        .then(() => console.log(`Seed link copied: ${getSeedUrl(seed)}`))
+        .catch(() => console.warn('Could not copy seed link'))
+    })
   }
 
   public handleResize(width: number, height: number): void {
@@ -307,19 +499,9 @@ export class UIManager {
 
     const menuY = height - UI_CONFIG.menuBarHeight / 2
     
-    if (this.houseButtonContainer) {
-        this.houseButtonContainer.setPosition(UI_CONFIG.firstButtonX, menuY)
-    }
-
-    if (this.teepeeButtonContainer) {
-        const tx = UI_CONFIG.firstButtonX + UI_CONFIG.buttonSpacing
-        this.teepeeButtonContainer.setPosition(tx, menuY)
-    }
-
-    if (this.villagerButtonContainer) {
-        const vx = UI_CONFIG.firstButtonX + UI_CONFIG.buttonSpacing * 2
-        this.villagerButtonContainer.setPosition(vx, menuY)
-    }
+    this.buttons.forEach((button, index) => {
+      button.setPosition(UI_CONFIG.firstButtonX + UI_CONFIG.buttonSpacing * index, menuY)
+    })
 
     // Update Clock Position
     if (this.clockContainer) {
@@ -328,5 +510,16 @@ export class UIManager {
         const y = size + 20
         this.clockContainer.setPosition(x, y)
     }
+
+    this.layoutResourceBar(width)
   }
 }
+
+/**
+ * "15 🪵 2 🪨" (empty string for free)
+ */
+function formatCost(cost: ResourceCost): string {
+  return (Object.entries(cost) as [ResourceType, number][])
+    .map(([resource, amount]) => `${amount} ${RESOURCE_CONFIG[resource].icon}`)
+    .join(' ')
+}
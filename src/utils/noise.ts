@@ -1,12 +1,13 @@
 /**
  * Simple 2D noise generator for terrain generation
  * Using a basic pseudo-random approach with interpolation
+ * Fully deterministic: the same seed always yields the same terrain
  */
 
 export class NoiseGenerator {
   private seed: number
 
-  constructor(seed: number = Math.random() * 1000) {
+  constructor(seed: number) {
     this.seed = seed
   }
 
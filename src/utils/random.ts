@@ -0,0 +1,91 @@
+/**
+ * Seeded pseudo-random number generator
+ * Every random decision in the game goes through an instance of this class,
+ * so the same world seed always reproduces the same village
+ */
+
+export class SeededRandom {
+  private state: number
+
+  constructor(seed: number) {
+    this.state = seed >>> 0
+  }
+
+  /**
+   * Next float value (mulberry32)
+   * @returns Value between 0 (inclusive) and 1 (exclusive)
+   */
+  public next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0
+    let t = this.state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+
+  /**
+   * Random integer between min and max (both inclusive)
+   * Drop-in replacement for Phaser.Math.Between, which uses Math.random
+   */
+  public between(min: number, max: number): number {
+    return Math.floor(this.next() * (max - min + 1)) + min
+  }
+
+  /**
+   * Random float between min (inclusive) and max (exclusive)
+   */
+  public range(min: number, max: number): number {
+    return min + this.next() * (max - min)
+  }
+
+  /**
+   * Returns true with the given probability (0.0 - 1.0)
+   */
+  public chance(probability: number): boolean {
+    return this.next() < probability
+  }
+
+  /**
+   * Pick a random element of a non-empty array
+   */
+  public pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)]
+  }
+}
+
+/**
+ * Derive an independent seed from a base seed and a salt
+ * Used to give each subsystem (terrain, villagers, ...) its own random stream
+ */
+export function deriveSeed(seed: number, salt: number): number {
+  let h = (seed ^ Math.imul(salt, 0x9E3779B1)) >>> 0
+  h = Math.imul(h ^ (h >>> 16), 0x85EBCA6B)
+  h = Math.imul(h ^ (h >>> 13), 0xC2B2AE35)
+  return (h ^ (h >>> 16)) >>> 0
+}
+
+/**
+ * Hash a string into a 32-bit seed (FNV-1a)
+ * Lets players share worlds by name, e.g. ?seed=vesnice
+ */
+export function hashString(text: string): number {
+  let h = 0x811C9DC5
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i)
+    h = Math.imul(h, 0x01000193)
+  }
+  return h >>> 0
+}
+
+/**
+ * Deterministic per-tile random value
+ * Unlike SeededRandom this does not depend on call order, so a tile always
+ * gets the same value no matter when (or whether) its neighbours are generated
+ * @returns Value between 0 (inclusive) and 1 (exclusive)
+ */
+export function hash2D(x: number, y: number, seed: number): number {
+  let h = (seed ^ Math.imul(x | 0, 0x27D4EB2D) ^ Math.imul(y | 0, 0x165667B1)) >>> 0
+  h = Math.imul(h ^ (h >>> 15), 0x85EBCA6B)
+  h = Math.imul(h ^ (h >>> 13), 0xC2B2AE35)
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967296
+}
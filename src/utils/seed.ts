@@ -0,0 +1,41 @@
+/**
+ * World seed helpers
+ * The seed is read from the URL query string (?seed=1234) so that everyone
+ * opening the same link gets the same village
+ */
+
+import { WORLD_SEED_PARAM } from '@/config/constants'
+import { hashString } from './random'
+
+/**
+ * Resolve the world seed for this session
+ * Numeric values that fit in 32 bits are used as-is, any other text
+ * (including larger numbers, which would otherwise wrap) is hashed.
+ * Without a seed in the URL a new one is rolled and written back into
+ * the address bar, so the current world can always be shared.
+ */
+export function resolveWorldSeed(): number {
+  const params = new URLSearchParams(window.location.search)
+  const value = params.get(WORLD_SEED_PARAM)
+
+  if (value !== null && value.trim() !== '') {
+    const trimmed = value.trim()
+    const isSeedNumber = /^\d+$/.test(trimmed) && Number(trimmed) <= 0xFFFFFFFF
+    return isSeedNumber ? Number(trimmed) : hashString(trimmed)
+  }
+
+  // The only place allowed to use Math.random: rolling a fresh seed
+  const seed = Math.floor(Math.random() * 1000000)
+  params.set(WORLD_SEED_PARAM, String(seed))
+  window.history.replaceState(null, '', `${window.location.pathname}?${params.toString()}${window.location.hash}`)
+  return seed
+}
+
+/**
+ * Build a shareable link to the world with the given seed
+ */
+export function getSeedUrl(seed: number): string {
+  const url = new URL(window.location.href)
+  url.searchParams.set(WORLD_SEED_PARAM, String(seed))
+  return url.toString()
+}
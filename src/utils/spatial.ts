@@ -0,0 +1,193 @@
+/**
+ * Grid-bucket spatial index
+ * Items are stored in square cells of the tile grid, so radius and nearest
+ * queries only touch the cells around the query point instead of every item.
+ * Positions are grid coordinates (fractional values are fine).
+ */
+
+interface Entry {
+  x: number
+  y: number
+  cell: string
+}
+
+export class SpatialGrid<T> {
+  private cellSize: number
+  private cells: Map<string, Set<T>> = new Map()
+  private entries: Map<T, Entry> = new Map()
+
+  // Cell extent ever used; bounds how far an unlimited nearest() search can go
+  private minCellX = Infinity
+  private minCellY = Infinity
+  private maxCellX = -Infinity
+  private maxCellY = -Infinity
+
+  constructor(cellSize: number) {
+    this.cellSize = cellSize
+  }
+
+  public get size(): number {
+    return this.entries.size
+  }
+
+  public has(item: T): boolean {
+    return this.entries.has(item)
+  }
+
+  /**
+   * Add an item, or move it if it is already indexed
+   */
+  public insert(item: T, x: number, y: number): void {
+    const existing = this.entries.get(item)
+    const cell = this.cellKey(x, y)
+
+    if (existing) {
+      existing.x = x
+      existing.y = y
+      if (existing.cell === cell) return
+      this.cells.get(existing.cell)?.delete(item)
+      existing.cell = cell
+    } else {
+      this.entries.set(item, { x, y, cell })
+    }
+
+    let bucket = this.cells.get(cell)
+    if (!bucket) {
+      bucket = new Set()
+      this.cells.set(cell, bucket)
+    }
+    bucket.add(item)
+
+    const cellX = Math.floor(x / this.cellSize)
+    const cellY = Math.floor(y / this.cellSize)
+    this.minCellX = Math.min(this.minCellX, cellX)
+    this.minCellY = Math.min(this.minCellY, cellY)
+    this.maxCellX = Math.max(this.maxCellX, cellX)
+    this.maxCellY = Math.max(this.maxCellY, cellY)
+  }
+
+  /**
+   * Update an item's position (alias of insert, reads better at call sites)
+   */
+  public move(item: T, x: number, y: number): void {
+    this.insert(item, x, y)
+  }
+
+  public remove(item: T): boolean {
+    const entry = this.entries.get(item)
+    if (!entry) return false
+
+    const bucket = this.cells.get(entry.cell)
+    if (bucket) {
+      bucket.delete(item)
+      if (bucket.size === 0) {
+        this.cells.delete(entry.cell)
+      }
+    }
+    this.entries.delete(item)
+    return true
+  }
+
+  public getPosition(item: T): { x: number, y: number } | null {
+    const entry = this.entries.get(item)
+    return entry ? { x: entry.x, y: entry.y } : null
+  }
+
+  /**
+   * All items within a radius of a point
+   */
+  public queryRadius(x: number, y: number, radius: number, filter?: (item: T) => boolean): T[] {
+    const results: T[] = []
+    const radiusSq = radius * radius
+    const minCellX = Math.floor((x - radius) / this.cellSize)
+    const maxCellX = Math.floor((x + radius) / this.cellSize)
+    const minCellY = Math.floor((y - radius) / this.cellSize)
+    const maxCellY = Math.floor((y + radius) / this.cellSize)
+
+    for (let cellY = minCellY; cellY <= maxCellY; cellY++) {
+      for (let cellX = minCellX; cellX <= maxCellX; cellX++) {
+        const bucket = this.cells.get(`${cellX},${cellY}`)
+        if (!bucket) continue
+        for (const item of bucket) {
+          const entry = this.entries.get(item)!
+          const dx = entry.x - x
+          const dy = entry.y - y
+          if (dx * dx + dy * dy <= radiusSq && (!filter || filter(item))) {
+            results.push(item)
+          }
+        }
+      }
+    }
+
+    return results
+  }
+
+  /**
+   * The N nearest items to a point, closest first
+   * Searches cell rings outward and stops as soon as no closer item can exist
+   * @param count Number of items wanted
+   * @param maxRadius Ignore items further than this
+   * @param filter Only consider items passing this test
+   */
+  public nearest(
+    x: number,
+    y: number,
+    count: number = 1,
+    maxRadius: number = Infinity,
+    filter?: (item: T) => boolean
+  ): T[] {
+    if (this.entries.size === 0 || count <= 0) return []
+
+    const found: Array<{ item: T, distSq: number }> = []
+    const maxRadiusSq = maxRadius * maxRadius
+    const centerCellX = Math.floor(x / this.cellSize)
+    const centerCellY = Math.floor(y / this.cellSize)
+
+    // Furthest ring that can contain anything
+    const extent = Math.max(
+      centerCellX - this.minCellX, this.maxCellX - centerCellX,
+      centerCellY - this.minCellY, this.maxCellY - centerCellY
+    )
+    const maxRing = Math.min(extent, Math.ceil(maxRadius / this.cellSize))
+
+    for (let ring = 0; ring <= maxRing; ring++) {
+      for (let cellY = centerCellY - ring; cellY <= centerCellY + ring; cellY++) {
+        for (let cellX = centerCellX - ring; cellX <= centerCellX + ring; cellX++) {
+          // Only the border of the ring; inner cells were visited already
+          if (ring > 0 && Math.abs(cellX - centerCellX) !== ring && Math.abs(cellY - centerCellY) !== ring) continue
+
+          const bucket = this.cells.get(`${cellX},${cellY}`)
+          if (!bucket) continue
+          for (const item of bucket) {
+            const entry = this.entries.get(item)!
+            const dx = entry.x - x
+            const dy = entry.y - y
+            const distSq = dx * dx + dy * dy
+            if (distSq > maxRadiusSq) continue
+            if (filter && !filter(item)) continue
+            found.push({ item, distSq })
+          }
+        }
+      }
+
+      // Anything in later rings is at least `ring * cellSize` away
+      if (found.length >= count) {
+        found.sort((a, b) => a.distSq - b.distSq)
+        const bound = ring * this.cellSize
+        if (found[count - 1].distSq <= bound * bound) break
+      }
+    }
+
+    found.sort((a, b) => a.distSq - b.distSq)
+    return found.slice(0, count).map(f => f.item)
+  }
+
+  public clear(): void {
+    this.cells.clear()
+    this.entries.clear()
+  }
+
+  private cellKey(x: number, y: number): string {
+    return `${Math.floor(x / this.cellSize)},${Math.floor(y / this.cellSize)}`
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Terrain rule helpers
+ * Thin wrappers around TERRAIN_RULES so callers don't compare terrain types directly
+ */
+
+import { TerrainType, TERRAIN_RULES } from '@/config/constants'
+import type { WorkTileKind } from '@/types/game'
+
+/**
+ * True for any forest type carrying a choppable tree
+ */
+export function isTreeTerrain(terrain: TerrainType): boolean {
+  return TERRAIN_RULES[terrain].object === 'tree'
+}
+
+export function isWalkableTerrain(terrain: TerrainType): boolean {
+  return TERRAIN_RULES[terrain].walkable
+}
+
+export function isBuildableTerrain(terrain: TerrainType): boolean {
+  return TERRAIN_RULES[terrain].buildable
+}
+
+export function getMoveCost(terrain: TerrainType): number {
+  return TERRAIN_RULES[terrain].moveCost
+}
+
+export function getSpeedMultiplier(terrain: TerrainType): number {
+  return TERRAIN_RULES[terrain].speed ?? 1
+}
+
+/**
+ * True for paths and roads, which join up with their neighbours when drawn
+ */
+export function isRoadTerrain(terrain: TerrainType): boolean {
+  return TERRAIN_RULES[terrain].road !== undefined
+}
+
+/**
+ * Which kind of work tile a terrain is, if any
+ */
+export function getWorkTileKind(terrain: TerrainType): WorkTileKind | null {
+  const rule = TERRAIN_RULES[terrain]
+  if (rule.object === 'tree') return 'tree'
+  if (rule.object === 'rocks') return 'rocks'
+  return rule.forage ? 'forage' : null
+}